@@ -0,0 +1,236 @@
+"use client";
+
+import { AdminOnly } from "@/components/auth/ProtectedRoute";
+import StatusBadge from "@/components/booking/StatusBadge";
+import { adminApi, handleApiError } from "@/lib/api/authClient";
+import { bookingRequestsApi } from "@/lib/api/bookingRequestsClient";
+import { useBookingAssignment } from "@/lib/hooks/useBookingAssignment";
+import { useBookingProjects } from "@/lib/hooks/useBookingProjects";
+import {
+  filterByAssignment,
+  isAssignedTo,
+  toAssignee,
+} from "@/lib/models/assignment";
+import { Booking } from "@/lib/models/booking";
+import { isTerminalStatus } from "@/lib/models/bookingStatus";
+import { useBookingActions, useBookings } from "@/lib/store/bookingStore";
+import dayjs from "dayjs";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+
+/**
+ * Work assignment screen
+ *
+ * Features:
+ * - Lists open bookings with their assigned employee
+ * - Assign, reassign or return bookings to the unassigned pool
+ * - Assignment carries over to the booking's project
+ * - Open workload per employee
+ */
+export default function AssignmentsPage() {
+  return (
+    <AdminOnly>
+      <AssignmentsContent />
+    </AdminOnly>
+  );
+}
+
+function AssignmentsContent() {
+  const { bookings, isLoading } = useBookings();
+  const { setBookings, setLoading } = useBookingActions();
+  const assignBooking = useBookingAssignment();
+  // Loaded so reassignment also moves the booking's project
+  useBookingProjects();
+
+  const [employees, setEmployees] = useState<UserResponse[]>([]);
+  const [unassignedOnly, setUnassignedOnly] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true);
+      try {
+        const [fetchedBookings, fetchedEmployees] = await Promise.all([
+          bookingRequestsApi.fetchBookingRequests(),
+          adminApi.getEmployees(),
+        ]);
+        setBookings(fetchedBookings);
+        setEmployees(fetchedEmployees.filter((e) => e.enabled));
+        setError("");
+      } catch (err) {
+        setError(handleApiError(err));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [setBookings, setLoading]);
+
+  const openBookings = bookings
+    .filter((b) => !isTerminalStatus(b.currentStatus))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const visibleBookings = unassignedOnly
+    ? filterByAssignment(openBookings, "unassigned")
+    : openBookings;
+
+  const handleAssign = async (booking: Booking, employeeId: string) => {
+    const employee = employees.find((e) => String(e.id) === employeeId);
+
+    setSavingId(booking.bookingId);
+    try {
+      await assignBooking(booking, employee ? toAssignee(employee) : null);
+      toast.success(
+        employee
+          ? `Assigned to ${employee.firstName} ${employee.lastName}`
+          : "Returned to the unassigned pool",
+      );
+    } catch (err) {
+      console.error("Failed to assign booking:", err);
+      toast.error(handleApiError(err));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Work Assignment</h1>
+          <p className="mt-2 text-gray-600">
+            Assign open bookings to employees and balance their workload.
+          </p>
+        </div>
+        <Link
+          href="/admin"
+          className="text-sm font-medium text-blue-600 hover:text-blue-500"
+        >
+          ← Admin Dashboard
+        </Link>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Workload */}
+      <div className="mb-8 grid grid-cols-2 gap-4 md:grid-cols-4">
+        <div className="rounded-lg bg-white p-4 shadow">
+          <p className="text-sm text-gray-500">Unassigned</p>
+          <p className="text-2xl font-semibold text-gray-900">
+            {filterByAssignment(openBookings, "unassigned").length}
+          </p>
+        </div>
+        {employees.map((employee) => (
+          <div key={employee.id} className="rounded-lg bg-white p-4 shadow">
+            <p className="truncate text-sm text-gray-500">
+              {employee.firstName} {employee.lastName}
+            </p>
+            <p className="text-2xl font-semibold text-gray-900">
+              {openBookings.filter((b) => isAssignedTo(b, employee.id)).length}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div className="rounded-lg bg-white shadow">
+        <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+          <h2 className="text-xl font-semibold text-gray-900">Open Bookings</h2>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={unassignedOnly}
+              onChange={(e) => setUnassignedOnly(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Unassigned only
+          </label>
+        </div>
+
+        <div className="overflow-x-auto px-6 py-4">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-600"></div>
+            </div>
+          ) : visibleBookings.length === 0 ? (
+            <div className="py-8 text-center text-gray-500">
+              No open bookings to assign.
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium tracking-wider text-gray-500 uppercase">
+                    Service
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium tracking-wider text-gray-500 uppercase">
+                    Customer
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium tracking-wider text-gray-500 uppercase">
+                    Appointment
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium tracking-wider text-gray-500 uppercase">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium tracking-wider text-gray-500 uppercase">
+                    Assigned To
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 bg-white">
+                {visibleBookings.map((booking) => (
+                  <tr key={booking.bookingId}>
+                    <td className="px-6 py-4 text-sm font-medium whitespace-nowrap text-gray-900">
+                      {booking.serviceName}
+                    </td>
+                    <td className="px-6 py-4 text-sm whitespace-nowrap text-gray-900">
+                      {booking.customerName || "—"}
+                    </td>
+                    <td className="px-6 py-4 text-sm whitespace-nowrap text-gray-900">
+                      {dayjs(booking.date).format("MMM D, HH:mm")}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <StatusBadge status={booking.currentStatus} />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <select
+                        value={
+                          booking.assignedTo
+                            ? String(booking.assignedTo.id)
+                            : ""
+                        }
+                        onChange={(e) => handleAssign(booking, e.target.value)}
+                        disabled={savingId === booking.bookingId}
+                        className="rounded-md border border-gray-300 px-3 py-1.5 text-sm text-gray-900 disabled:opacity-50"
+                      >
+                        <option value="">Unassigned</option>
+                        {booking.assignedTo &&
+                          !employees.some((e) =>
+                            isAssignedTo(booking, e.id),
+                          ) && (
+                            <option value={String(booking.assignedTo.id)}>
+                              {booking.assignedTo.name} (inactive)
+                            </option>
+                          )}
+                        {employees.map((employee) => (
+                          <option key={employee.id} value={String(employee.id)}>
+                            {employee.firstName} {employee.lastName}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+"use client";
+
+import type { Center, CenterData } from "@/app/types";
+import { AdminOnly } from "@/components/auth/ProtectedRoute";
+import { handleApiError } from "@/lib/api/clientFactory";
+import { useServiceCatalog } from "@/lib/hooks/useServiceCatalog";
+import { formatOpeningHours, validateCenter } from "@/lib/models/catalog";
+import Link from "next/link";
+import { useState } from "react";
+import toast from "react-hot-toast";
+
+const EMPTY_CENTER: CenterData = {
+  name: "",
+  location: "",
+  opening_time: "08:00",
+  closing_time: "17:00",
+  bay_count: 1,
+};
+
+const inputClass =
+  "w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:outline-none";
+
+/**
+ * Service center administration
+ *
+ * Features:
+ * - Lists centers with their opening hours and bay count
+ * - Create, edit and delete centers
+ * - Changes show immediately and roll back if the server rejects them
+ */
+export default function CentersPage() {
+  return (
+    <AdminOnly>
+      <CentersContent />
+    </AdminOnly>
+  );
+}
+
+function CentersContent() {
+  const {
+    centers,
+    services,
+    isLoading,
+    error,
+    createCenter,
+    updateCenter,
+    deleteCenter,
+  } = useServiceCatalog();
+
+  const [form, setForm] = useState<CenterData>(EMPTY_CENTER);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setForm(EMPTY_CENTER);
+    setEditingId(null);
+    setFormError(null);
+  };
+
+  const startEdit = (center: Center) => {
+    setForm({
+      name: center.name,
+      location: center.location,
+      opening_time: center.opening_time ?? EMPTY_CENTER.opening_time,
+      closing_time: center.closing_time ?? EMPTY_CENTER.closing_time,
+      bay_count: center.bay_count ?? EMPTY_CENTER.bay_count,
+    });
+    setEditingId(center.id);
+    setFormError(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = {
+      ...form,
+      name: form.name.trim(),
+      location: form.location.trim(),
+    };
+    const problem = validateCenter(data, centers, editingId ?? undefined);
+    setFormError(problem);
+    if (problem) return;
+
+    // The list updates straight away; the form is free for the next entry
+    const request =
+      editingId === null ? createCenter(data) : updateCenter(editingId, data);
+    resetForm();
+    request
+      .then(() => toast.success(`Saved ${data.name}`))
+      .catch((err) => {
+        console.error("Failed to save center:", err);
+        toast.error(`Could not save ${data.name}: ${handleApiError(err)}`);
+      });
+  };
+
+  const handleDelete = (center: Center) => {
+    const offered = services.filter((s) => s.center_ids?.includes(center.id));
+    const warning = offered.length
+      ? ` ${offered.length} service(s) will no longer be offered there.`
+      : "";
+    if (!window.confirm(`Delete ${center.name}?${warning}`)) return;
+
+    if (editingId === center.id) resetForm();
+    deleteCenter(center.id)
+      .then(() => toast.success(`Deleted ${center.name}`))
+      .catch((err) => {
+        console.error("Failed to delete center:", err);
+        toast.error(`Could not delete ${center.name}: ${handleApiError(err)}`);
+      });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Service Centers</h1>
+          <p className="mt-2 text-gray-600">
+            Locations customers can book, with their hours and capacity.
+          </p>
+        </div>
+        <div className="flex gap-4">
+          <Link
+            href="/admin/services"
+            className="text-sm font-medium text-blue-600 hover:text-blue-500"
+          >
+            Services →
+          </Link>
+          <Link
+            href="/admin"
+            className="text-sm font-medium text-blue-600 hover:text-blue-500"
+          >
+            ← Admin Dashboard
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-8 lg:grid-cols-3">
+        <form
+          onSubmit={handleSubmit}
+          className="h-fit rounded-lg bg-white p-6 shadow"
+        >
+          <h2 className="mb-4 text-lg font-semibold text-gray-900">
+            {editingId === null ? "Add Center" : "Edit Center"}
+          </h2>
+          <div className="space-y-3">
+            <label className="block text-sm text-gray-700">
+              Name
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block text-sm text-gray-700">
+              Location
+              <input
+                value={form.location}
+                onChange={(e) => setForm({ ...form, location: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block text-sm text-gray-700">
+                Opens
+                <input
+                  type="time"
+                  value={form.opening_time}
+                  onChange={(e) =>
+                    setForm({ ...form, opening_time: e.target.value })
+                  }
+                  className={inputClass}
+                />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Closes
+                <input
+                  type="time"
+                  value={form.closing_time}
+                  onChange={(e) =>
+                    setForm({ ...form, closing_time: e.target.value })
+                  }
+                  className={inputClass}
+                />
+              </label>
+            </div>
+            <label className="block text-sm text-gray-700">
+              Service bays
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={form.bay_count}
+                onChange={(e) =>
+                  setForm({ ...form, bay_count: Number(e.target.value) })
+                }
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          {formError && (
+            <p className="mt-3 text-sm text-red-600">{formError}</p>
+          )}
+
+          <div className="mt-4 flex gap-2">
+            <button
+              type="submit"
+              className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700"
+            >
+              {editingId === null ? "Add Center" : "Save Changes"}
+            </button>
+            {editingId !== null && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="rounded-md border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+
+        <div className="rounded-lg bg-white shadow lg:col-span-2">
+          <div className="border-b border-gray-200 px-6 py-4">
+            <h2 className="text-xl font-semibold text-gray-900">
+              Centers ({centers.length})
+            </h2>
+          </div>
+          <div className="overflow-x-auto px-6 py-4">
+            {isLoading && centers.length === 0 ? (
+              <div className="flex justify-center py-8">
+                <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-600"></div>
+              </div>
+            ) : centers.length === 0 ? (
+              <div className="py-8 text-center text-gray-500">
+                No service centers yet.
+              </div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {["Center", "Hours", "Bays", ""].map((heading) => (
+                      <th
+                        key={heading}
+                        className="px-6 py-3 text-left text-xs font-medium tracking-wider text-gray-500 uppercase"
+                      >
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 bg-white">
+                  {centers.map((center) => {
+                    // Optimistic rows have a negative id until saved
+                    const isSaving = center.id < 0;
+                    return (
+                      <tr
+                        key={center.id}
+                        className={isSaving ? "opacity-50" : undefined}
+                      >
+                        <td className="px-6 py-4 text-sm whitespace-nowrap text-gray-900">
+                          <p className="font-medium">{center.name}</p>
+                          <p className="text-xs text-gray-500">
+                            {center.location}
+                          </p>
+                        </td>
+                        <td className="px-6 py-4 text-sm whitespace-nowrap text-gray-900">
+                          {formatOpeningHours(center)}
+                        </td>
+                        <td className="px-6 py-4 text-sm whitespace-nowrap text-gray-900">
+                          {center.bay_count ?? "—"}
+                        </td>
+                        <td className="px-6 py-4 text-right text-sm whitespace-nowrap">
+                          <button
+                            onClick={() => startEdit(center)}
+                            disabled={isSaving}
+                            className="mr-3 font-medium text-blue-600 hover:text-blue-500 disabled:opacity-50"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleDelete(center)}
+                            disabled={isSaving}
+                            className="font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,441 @@
+"use client";
+
+import { AdminOnly } from "@/components/auth/ProtectedRoute";
+import { handleApiError } from "@/lib/api/clientFactory";
+import { usePartsInventory } from "@/lib/hooks/usePartsInventory";
+import { useServiceCatalog } from "@/lib/hooks/useServiceCatalog";
+import {
+  getAvailable,
+  isValidQuantity,
+  Part,
+  StockLevel,
+} from "@/lib/models/inventory";
+import Link from "next/link";
+import { useState } from "react";
+import toast from "react-hot-toast";
+
+const EMPTY_PART: PartRequest = {
+  sku: "",
+  name: "",
+  category: "",
+  unitPrice: 0,
+  reorderLevel: 5,
+};
+
+const inputClass =
+  "w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:outline-none";
+
+/**
+ * Inventory administration
+ *
+ * Features:
+ * - Part catalogue with stock on hand, reserved and available
+ * - Per-center or combined stock view
+ * - Receive deliveries into a center's stock
+ * - Add parts to the catalogue
+ */
+export default function InventoryPage() {
+  return (
+    <AdminOnly>
+      <InventoryContent />
+    </AdminOnly>
+  );
+}
+
+function InventoryContent() {
+  const {
+    parts,
+    stockLevels,
+    lowStock,
+    isLoading,
+    error,
+    addPart,
+    receiveStock,
+  } = usePartsInventory();
+  const { centers } = useServiceCatalog();
+
+  const [centerFilter, setCenterFilter] = useState<number | "all">("all");
+  const [receipt, setReceipt] = useState({
+    partId: "",
+    centerId: "",
+    quantity: 1,
+    reference: "",
+  });
+  const [newPart, setNewPart] = useState<PartRequest>(EMPTY_PART);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Combined levels when looking at every center
+  const getStock = (part: Part): StockLevel => {
+    const levels = stockLevels.filter(
+      (l) =>
+        l.partId === part._id &&
+        (centerFilter === "all" || l.centerId === centerFilter),
+    );
+    return {
+      partId: part._id,
+      centerId: centerFilter === "all" ? 0 : centerFilter,
+      onHand: levels.reduce((sum, l) => sum + l.onHand, 0),
+      reserved: levels.reduce((sum, l) => sum + l.reserved, 0),
+    };
+  };
+
+  const visibleLowStock =
+    centerFilter === "all"
+      ? lowStock
+      : lowStock.filter((item) => item.stock.centerId === centerFilter);
+  const lowPartIds = new Set(visibleLowStock.map((item) => item.part._id));
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!receipt.partId || !receipt.centerId) {
+      toast.error("Choose a part and a service center");
+      return;
+    }
+    if (!isValidQuantity(receipt.quantity)) {
+      toast.error("Quantity must be a whole number above zero");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await receiveStock({
+        partId: receipt.partId,
+        centerId: Number(receipt.centerId),
+        quantity: receipt.quantity,
+        reference: receipt.reference.trim() || undefined,
+      });
+      toast.success("Stock received");
+      setReceipt((current) => ({ ...current, quantity: 1, reference: "" }));
+    } catch (err) {
+      console.error("Failed to receive stock:", err);
+      toast.error(handleApiError(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddPart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newPart.sku.trim() || !newPart.name.trim()) {
+      toast.error("SKU and name are required");
+      return;
+    }
+    if (!(newPart.unitPrice >= 0) || !(newPart.reorderLevel >= 0)) {
+      toast.error("Price and reorder level cannot be negative");
+      return;
+    }
+    if (
+      parts.some(
+        (p) => p.sku.toLowerCase() === newPart.sku.trim().toLowerCase(),
+      )
+    ) {
+      toast.error(`A part with SKU ${newPart.sku.trim()} already exists`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await addPart({
+        ...newPart,
+        sku: newPart.sku.trim(),
+        name: newPart.name.trim(),
+        category: newPart.category?.trim() || undefined,
+      });
+      toast.success("Part added");
+      setNewPart(EMPTY_PART);
+    } catch (err) {
+      console.error("Failed to add part:", err);
+      toast.error(handleApiError(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Inventory</h1>
+          <p className="mt-2 text-gray-600">
+            Track parts stock across service centers and receive deliveries.
+          </p>
+        </div>
+        <Link
+          href="/admin"
+          className="text-sm font-medium text-blue-600 hover:text-blue-500"
+        >
+          ← Admin Dashboard
+        </Link>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="mb-8 grid grid-cols-1 gap-4 md:grid-cols-3">
+        <div className="rounded-lg bg-white p-4 shadow">
+          <p className="text-sm text-gray-500">Parts in Catalogue</p>
+          <p className="text-2xl font-semibold text-gray-900">{parts.length}</p>
+        </div>
+        <div className="rounded-lg bg-white p-4 shadow">
+          <p className="text-sm text-gray-500">Low Stock</p>
+          <p
+            className={`text-2xl font-semibold ${
+              visibleLowStock.length ? "text-red-600" : "text-gray-900"
+            }`}
+          >
+            {visibleLowStock.length}
+          </p>
+        </div>
+        <div className="rounded-lg bg-white p-4 shadow">
+          <p className="text-sm text-gray-500">Units Reserved</p>
+          <p className="text-2xl font-semibold text-gray-900">
+            {parts.reduce((sum, part) => sum + getStock(part).reserved, 0)}
+          </p>
+        </div>
+      </div>
+
+      {/* Forms */}
+      <div className="mb-8 grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <form
+          onSubmit={handleReceive}
+          className="rounded-lg bg-white p-6 shadow"
+        >
+          <h2 className="mb-4 text-lg font-semibold text-gray-900">
+            Receive Stock
+          </h2>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            <select
+              value={receipt.centerId}
+              onChange={(e) =>
+                setReceipt({ ...receipt, centerId: e.target.value })
+              }
+              className={inputClass}
+            >
+              <option value="">Service center...</option>
+              {centers.map((center) => (
+                <option key={center.id} value={center.id}>
+                  {center.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={receipt.partId}
+              onChange={(e) =>
+                setReceipt({ ...receipt, partId: e.target.value })
+              }
+              className={inputClass}
+            >
+              <option value="">Part...</option>
+              {parts.map((part) => (
+                <option key={part._id} value={part._id}>
+                  {part.sku} - {part.name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={receipt.quantity}
+              onChange={(e) =>
+                setReceipt({ ...receipt, quantity: Number(e.target.value) })
+              }
+              aria-label="Quantity"
+              className={inputClass}
+            />
+            <input
+              value={receipt.reference}
+              onChange={(e) =>
+                setReceipt({ ...receipt, reference: e.target.value })
+              }
+              placeholder="Delivery reference (optional)"
+              className={inputClass}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="mt-4 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+          >
+            Receive
+          </button>
+        </form>
+
+        <form
+          onSubmit={handleAddPart}
+          className="rounded-lg bg-white p-6 shadow"
+        >
+          <h2 className="mb-4 text-lg font-semibold text-gray-900">Add Part</h2>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            <input
+              value={newPart.sku}
+              onChange={(e) => setNewPart({ ...newPart, sku: e.target.value })}
+              placeholder="SKU"
+              className={inputClass}
+            />
+            <input
+              value={newPart.name}
+              onChange={(e) => setNewPart({ ...newPart, name: e.target.value })}
+              placeholder="Name"
+              className={inputClass}
+            />
+            <input
+              value={newPart.category}
+              onChange={(e) =>
+                setNewPart({ ...newPart, category: e.target.value })
+              }
+              placeholder="Category (optional)"
+              className={inputClass}
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <label className="text-xs text-gray-500">
+                Unit price ($)
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={newPart.unitPrice}
+                  onChange={(e) =>
+                    setNewPart({
+                      ...newPart,
+                      unitPrice: Number(e.target.value),
+                    })
+                  }
+                  className={inputClass}
+                />
+              </label>
+              <label className="text-xs text-gray-500">
+                Reorder at
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={newPart.reorderLevel}
+                  onChange={(e) =>
+                    setNewPart({
+                      ...newPart,
+                      reorderLevel: Number(e.target.value),
+                    })
+                  }
+                  className={inputClass}
+                />
+              </label>
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="mt-4 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+          >
+            Add Part
+          </button>
+        </form>
+      </div>
+
+      {/* Stock table */}
+      <div className="rounded-lg bg-white shadow">
+        <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+          <h2 className="text-xl font-semibold text-gray-900">Stock</h2>
+          <select
+            value={centerFilter}
+            onChange={(e) =>
+              setCenterFilter(
+                e.target.value === "all" ? "all" : Number(e.target.value),
+              )
+            }
+            className="rounded-md border border-gray-300 px-3 py-1.5 text-sm text-gray-900"
+          >
+            <option value="all">All centers</option>
+            {centers.map((center) => (
+              <option key={center.id} value={center.id}>
+                {center.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="overflow-x-auto px-6 py-4">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-600"></div>
+            </div>
+          ) : parts.length === 0 ? (
+            <div className="py-8 text-center text-gray-500">
+              No parts in the catalogue yet.
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {[
+                    "SKU",
+                    "Part",
+                    "Unit Price",
+                    "On Hand",
+                    "Reserved",
+                    "Available",
+                    "Reorder At",
+                  ].map((heading) => (
+                    <th
+                      key={heading}
+                      className="px-6 py-3 text-left text-xs font-medium tracking-wider text-gray-500 uppercase"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 bg-white">
+                {parts.map((part) => {
+                  const stock = getStock(part);
+                  const isLow = lowPartIds.has(part._id);
+                  return (
+                    <tr
+                      key={part._id}
+                      className={isLow ? "bg-red-50" : undefined}
+                    >
+                      <td className="px-6 py-4 font-mono text-sm whitespace-nowrap text-gray-500">
+                        {part.sku}
+                      </td>
+                      <td className="px-6 py-4 text-sm whitespace-nowrap text-gray-900">
+                        <p className="font-medium">{part.name}</p>
+                        {part.category && (
+                          <p className="text-xs text-gray-500">
+                            {part.category}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm whitespace-nowrap text-gray-900">
+                        ${part.unitPrice.toFixed(2)}
+                      </td>
+                      <td className="px-6 py-4 text-sm whitespace-nowrap text-gray-900">
+                        {stock.onHand}
+                      </td>
+                      <td className="px-6 py-4 text-sm whitespace-nowrap text-gray-900">
+                        {stock.reserved}
+                      </td>
+                      <td
+                        className={`px-6 py-4 text-sm font-semibold whitespace-nowrap ${
+                          isLow ? "text-red-600" : "text-gray-900"
+                        }`}
+                      >
+                        {getAvailable(stock)}
+                      </td>
+                      <td className="px-6 py-4 text-sm whitespace-nowrap text-gray-500">
+                        {part.reorderLevel}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { AdminOnly } from "@/components/auth/ProtectedRoute";
 import { adminApi, handleApiError } from "@/lib/api/authClient";
+import Link from "next/link";
 import { useEffect, useState } from "react";
 
 /**
@@ -86,11 +87,39 @@ function AdminDashboardContent() {
 
   return (
     <div className="min-h-screen bg-gray-50 px-4 py-8 sm:px-6 lg:px-8">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold text-gray-900">Admin Dashboard</h1>
-        <p className="mt-2 text-gray-600">
-          Manage employees and system administration
-        </p>
+      <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Admin Dashboard</h1>
+          <p className="mt-2 text-gray-600">
+            Manage employees and system administration
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <Link
+            href="/admin/centers"
+            className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+          >
+            Centers
+          </Link>
+          <Link
+            href="/admin/services"
+            className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+          >
+            Services
+          </Link>
+          <Link
+            href="/admin/inventory"
+            className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+          >
+            Inventory
+          </Link>
+          <Link
+            href="/admin/assignments"
+            className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700"
+          >
+            Work Assignment
+          </Link>
+        </div>
       </div>
 
       {/* Status Messages */}
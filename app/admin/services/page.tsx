@@ -0,0 +1,407 @@
+"use client";
+
+import type { Service, ServiceData } from "@/app/types";
+import { AdminOnly } from "@/components/auth/ProtectedRoute";
+import { handleApiError } from "@/lib/api/clientFactory";
+import { useServiceCatalog } from "@/lib/hooks/useServiceCatalog";
+import { MAX_SERVICE_MINUTES, validateService } from "@/lib/models/catalog";
+import Link from "next/link";
+import { useState } from "react";
+import toast from "react-hot-toast";
+
+const EMPTY_SERVICE: ServiceData = {
+  name: "",
+  category: "",
+  duration_minutes: 60,
+  price: 0,
+  center_ids: [],
+  center_prices: {},
+};
+
+const withoutCenterPrice = (prices: Record<string, number>, centerId: number) =>
+  Object.fromEntries(
+    Object.entries(prices).filter(([id]) => Number(id) !== centerId),
+  );
+
+const inputClass =
+  "w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:outline-none";
+
+/**
+ * Service catalogue administration
+ *
+ * Features:
+ * - Lists services with their duration, price and offering centers
+ * - Create, edit and delete services
+ * - Choose which centers offer each service and what each one charges
+ */
+export default function ServicesPage() {
+  return (
+    <AdminOnly>
+      <ServicesContent />
+    </AdminOnly>
+  );
+}
+
+function ServicesContent() {
+  const {
+    centers,
+    services,
+    isLoading,
+    error,
+    createService,
+    updateService,
+    deleteService,
+  } = useServiceCatalog();
+
+  const [form, setForm] = useState<ServiceData>(EMPTY_SERVICE);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const categories = [...new Set(services.map((s) => s.category))].sort();
+  const selectedCenters = form.center_ids ?? [];
+  const centerPrices = form.center_prices ?? {};
+
+  const resetForm = () => {
+    setForm(EMPTY_SERVICE);
+    setEditingId(null);
+    setFormError(null);
+  };
+
+  const startEdit = (service: Service) => {
+    setForm({
+      name: service.name,
+      category: service.category,
+      duration_minutes: service.duration_minutes,
+      price: service.price,
+      // Legacy services without a list are offered everywhere
+      center_ids: service.center_ids ?? centers.map((c) => c.id),
+      center_prices: service.center_prices ?? {},
+    });
+    setEditingId(service.id);
+    setFormError(null);
+  };
+
+  const toggleCenter = (centerId: number) => {
+    const otherPrices = withoutCenterPrice(centerPrices, centerId);
+    setForm({
+      ...form,
+      center_ids: selectedCenters.includes(centerId)
+        ? selectedCenters.filter((id) => id !== centerId)
+        : [...selectedCenters, centerId],
+      center_prices: otherPrices,
+    });
+  };
+
+  // An empty price box means the center charges the standard price
+  const setCenterPrice = (centerId: number, value: string) => {
+    const otherPrices = withoutCenterPrice(centerPrices, centerId);
+    setForm({
+      ...form,
+      center_prices:
+        value === ""
+          ? otherPrices
+          : { ...otherPrices, [centerId]: Number(value) },
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = {
+      ...form,
+      name: form.name.trim(),
+      category: form.category.trim(),
+    };
+    const problem = validateService(
+      data,
+      services,
+      centers,
+      editingId ?? undefined,
+    );
+    setFormError(problem);
+    if (problem) return;
+
+    const request =
+      editingId === null ? createService(data) : updateService(editingId, data);
+    resetForm();
+    request
+      .then(() => toast.success(`Saved ${data.name}`))
+      .catch((err) => {
+        console.error("Failed to save service:", err);
+        toast.error(`Could not save ${data.name}: ${handleApiError(err)}`);
+      });
+  };
+
+  const handleDelete = (service: Service) => {
+    if (!window.confirm(`Delete ${service.name}?`)) return;
+
+    if (editingId === service.id) resetForm();
+    deleteService(service.id)
+      .then(() => toast.success(`Deleted ${service.name}`))
+      .catch((err) => {
+        console.error("Failed to delete service:", err);
+        toast.error(`Could not delete ${service.name}: ${handleApiError(err)}`);
+      });
+  };
+
+  const centerNames = (service: Service) => {
+    if (!service.center_ids) return "All centers";
+    const names = centers
+      .filter((c) => service.center_ids?.includes(c.id))
+      .map((c) => c.name);
+    return names.length ? names.join(", ") : "No centers";
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Services</h1>
+          <p className="mt-2 text-gray-600">
+            The catalogue customers choose from when booking.
+          </p>
+        </div>
+        <div className="flex gap-4">
+          <Link
+            href="/admin/centers"
+            className="text-sm font-medium text-blue-600 hover:text-blue-500"
+          >
+            Centers →
+          </Link>
+          <Link
+            href="/admin"
+            className="text-sm font-medium text-blue-600 hover:text-blue-500"
+          >
+            ← Admin Dashboard
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-8 lg:grid-cols-3">
+        <form
+          onSubmit={handleSubmit}
+          className="h-fit rounded-lg bg-white p-6 shadow"
+        >
+          <h2 className="mb-4 text-lg font-semibold text-gray-900">
+            {editingId === null ? "Add Service" : "Edit Service"}
+          </h2>
+          <div className="space-y-3">
+            <label className="block text-sm text-gray-700">
+              Name
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block text-sm text-gray-700">
+              Category
+              <input
+                value={form.category}
+                list="service-categories"
+                onChange={(e) => setForm({ ...form, category: e.target.value })}
+                className={inputClass}
+              />
+              <datalist id="service-categories">
+                {categories.map((category) => (
+                  <option key={category} value={category} />
+                ))}
+              </datalist>
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block text-sm text-gray-700">
+                Duration (min)
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_SERVICE_MINUTES}
+                  step={1}
+                  value={form.duration_minutes}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      duration_minutes: Number(e.target.value),
+                    })
+                  }
+                  className={inputClass}
+                />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Price ($)
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={form.price}
+                  onChange={(e) =>
+                    setForm({ ...form, price: Number(e.target.value) })
+                  }
+                  className={inputClass}
+                />
+              </label>
+            </div>
+            <fieldset>
+              <legend className="text-sm text-gray-700">Offered at</legend>
+              {centers.length === 0 ? (
+                <p className="mt-1 text-sm text-gray-500">
+                  Add a{" "}
+                  <Link href="/admin/centers" className="text-blue-600">
+                    service center
+                  </Link>{" "}
+                  first.
+                </p>
+              ) : (
+                <div className="mt-1 space-y-1">
+                  {centers.map((center) => (
+                    <div
+                      key={center.id}
+                      className="flex items-center justify-between gap-2"
+                    >
+                      <label className="flex items-center gap-2 text-sm text-gray-900">
+                        <input
+                          type="checkbox"
+                          checked={selectedCenters.includes(center.id)}
+                          onChange={() => toggleCenter(center.id)}
+                          className="rounded border-gray-300"
+                        />
+                        {center.name}
+                      </label>
+                      {selectedCenters.includes(center.id) && (
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.01}
+                          value={centerPrices[center.id] ?? ""}
+                          placeholder={`$${form.price}`}
+                          aria-label={`Price at ${center.name}`}
+                          title="Leave empty to charge the standard price"
+                          onChange={(e) =>
+                            setCenterPrice(center.id, e.target.value)
+                          }
+                          className="w-24 rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900 focus:border-blue-500 focus:outline-none"
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </fieldset>
+          </div>
+
+          {formError && (
+            <p className="mt-3 text-sm text-red-600">{formError}</p>
+          )}
+
+          <div className="mt-4 flex gap-2">
+            <button
+              type="submit"
+              className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700"
+            >
+              {editingId === null ? "Add Service" : "Save Changes"}
+            </button>
+            {editingId !== null && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="rounded-md border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+
+        <div className="rounded-lg bg-white shadow lg:col-span-2">
+          <div className="border-b border-gray-200 px-6 py-4">
+            <h2 className="text-xl font-semibold text-gray-900">
+              Services ({services.length})
+            </h2>
+          </div>
+          <div className="overflow-x-auto px-6 py-4">
+            {isLoading && services.length === 0 ? (
+              <div className="flex justify-center py-8">
+                <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-600"></div>
+              </div>
+            ) : services.length === 0 ? (
+              <div className="py-8 text-center text-gray-500">
+                No services yet.
+              </div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {["Service", "Duration", "Price", "Centers", ""].map(
+                      (heading) => (
+                        <th
+                          key={heading}
+                          className="px-6 py-3 text-left text-xs font-medium tracking-wider text-gray-500 uppercase"
+                        >
+                          {heading}
+                        </th>
+                      ),
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 bg-white">
+                  {services.map((service) => {
+                    // Optimistic rows have a negative id until saved
+                    const isSaving = service.id < 0;
+                    return (
+                      <tr
+                        key={service.id}
+                        className={isSaving ? "opacity-50" : undefined}
+                      >
+                        <td className="px-6 py-4 text-sm whitespace-nowrap text-gray-900">
+                          <p className="font-medium">{service.name}</p>
+                          <p className="text-xs text-gray-500">
+                            {service.category}
+                          </p>
+                        </td>
+                        <td className="px-6 py-4 text-sm whitespace-nowrap text-gray-900">
+                          {service.duration_minutes} min
+                        </td>
+                        <td className="px-6 py-4 text-sm whitespace-nowrap text-gray-900">
+                          ${service.price.toFixed(2)}
+                          {Object.keys(service.center_prices ?? {}).length >
+                            0 && (
+                            <p className="text-xs text-gray-500">
+                              varies by center
+                            </p>
+                          )}
+                        </td>
+                        <td className="max-w-xs truncate px-6 py-4 text-sm text-gray-500">
+                          {centerNames(service)}
+                        </td>
+                        <td className="px-6 py-4 text-right text-sm whitespace-nowrap">
+                          <button
+                            onClick={() => startEdit(service)}
+                            disabled={isSaving}
+                            className="mr-3 font-medium text-blue-600 hover:text-blue-500 disabled:opacity-50"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleDelete(service)}
+                            disabled={isSaving}
+                            className="font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
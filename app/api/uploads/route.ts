@@ -0,0 +1,57 @@
+import {
+  assertValidPhoto,
+  InvalidPhotoError,
+  PHOTO_EXTENSIONS,
+} from "@/lib/models/progressUpdate";
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Development upload endpoint
+ *
+ * Saves photos under public/uploads so Next serves them back at /uploads.
+ * Production points NEXT_PUBLIC_UPLOAD_SERVICE_URL at the real storage
+ * service (set at build time, since the browser reads it), so this route
+ * refuses to run there.
+ */
+const UPLOAD_DIR = path.join(process.cwd(), "public", "uploads");
+
+export async function POST(request: Request) {
+  if (process.env.NODE_ENV === "production") {
+    return Response.json(
+      { message: "Local uploads are only available in development" },
+      { status: 404 },
+    );
+  }
+
+  const form = await request.formData().catch(() => null);
+  const file = form?.get("file");
+  if (!(file instanceof File)) {
+    return Response.json(
+      { message: 'Expected a multipart body with a "file" field' },
+      { status: 400 },
+    );
+  }
+
+  try {
+    assertValidPhoto(file);
+  } catch (error) {
+    if (error instanceof InvalidPhotoError) {
+      return Response.json({ message: error.message }, { status: 422 });
+    }
+    throw error;
+  }
+
+  const fileName = `${randomUUID()}.${PHOTO_EXTENSIONS[file.type]}`;
+  await mkdir(UPLOAD_DIR, { recursive: true });
+  await writeFile(
+    path.join(UPLOAD_DIR, fileName),
+    Buffer.from(await file.arrayBuffer()),
+  );
+
+  return Response.json(
+    { url: `/uploads/${fileName}`, name: file.name },
+    { status: 201 },
+  );
+}
@@ -2,106 +2,86 @@
 import React, { useState, useEffect } from 'react';
 import { ServiceSelector } from '../components/serviceselector';
 import { AvailabilityDisplay } from '../components/availabilitydisplay';
+import { AvailabilityCalendar } from '../components/availabilitycalendar';
 import { BookingForm } from '../components/bookingform';
 import { VehicleSelector } from '../components/VehicleSelector';
 import { bookingAPI } from '../utils/api';
-import { Center, Service, TimeSlot, AvailabilityResponse, BookingData, Vehicle } from '../types';
+import { TimeSlot, AvailabilityResponse, BookingData, BookingResponse } from '../types';
 import { Card } from '../components/ui/card';
 import { SuccessModal } from '../components/successmodal';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/store/authStore';
+import { CustomerOnly } from '@/components/auth/ProtectedRoute';
+import AddVehicle from '@/components/vehicle/AddVehicle';
+import { vehicleApi } from '@/lib/api/addVehicleClient';
+import { useVehicles, useVehicleActions, Vehicle } from '@/lib/store/vehicleStore';
+import { useServiceCatalog } from '@/lib/hooks/useServiceCatalog';
+import { getServicesForCenter, isOfferedAt } from '@/lib/models/catalog';
+import toast from 'react-hot-toast';
+import { useSlotHold } from '@/lib/hooks/useSlotHold';
+import { ApiError, handleApiError } from '@/lib/api/clientFactory';
+
+// Someone else booked or held the slot first
+const isSlotConflict = (error: unknown) => error instanceof ApiError && error.status === 409;
 
 const Home: React.FC = () => {
-  const [centers, setCenters] = useState<Center[]>([]);
-  const [services, setServices] = useState<Service[]>([]);
+  const { centers, services } = useServiceCatalog();
   const [selectedCenter, setSelectedCenter] = useState<number | null>(null);
-  const [selectedService, setSelectedService] = useState<number | null>(null);
+  const [selectedServices, setSelectedServices] = useState<number[]>([]);
   const [selectedDate, setSelectedDate] = useState<string>('');
+  const [highlightedStart, setHighlightedStart] = useState<string | null>(null);
   const [availability, setAvailability] = useState<AvailabilityResponse | null>(null);
   const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
+  const [holdingStart, setHoldingStart] = useState<string | null>(null);
   const [selectedVehicle, setSelectedVehicle] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [bookingLoading, setBookingLoading] = useState(false);
-  const [bookingSuccess, setBookingSuccess] = useState<string | null>(null);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
-  const [isCheckingAuth, setIsCheckingAuth] = useState(true);
-  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [confirmedBooking, setConfirmedBooking] = useState<BookingResponse | null>(null);
+  const [isAddVehicleOpen, setIsAddVehicleOpen] = useState(false);
 
   const router = useRouter();
-  const { isAuthenticated, isLoading, user } = useAuth();
-
-  // Authentication check
-  useEffect(() => {
-    if (!isLoading) {
-      setIsCheckingAuth(false);
-      if (!isAuthenticated) {
-        router.push('/login');
-      }
-    }
-  }, [isAuthenticated, isLoading, router]);
+  const { user } = useAuth();
+  const { vehicles, isLoading: vehiclesLoading } = useVehicles();
+  const { setVehicles, setLoading: setVehiclesLoading, setError: setVehiclesError } = useVehicleActions();
 
-  // Load centers & services
+  // Load the customer's garage from the vehicle service
   useEffect(() => {
-    if (!isAuthenticated || isCheckingAuth || !user) return;
+    if (!user) return;
 
-    const loadData = async () => {
+    const loadVehicles = async () => {
       try {
-        const [centersData, servicesData, getVehicles] = await Promise.all([
-          bookingAPI.getCenters(),
-          bookingAPI.getServices(),
-          bookingAPI.getVehicles(user.id)
-        ]);
-        setCenters(centersData);
-        setServices(servicesData);
-        setVehicles(getVehicles);
+        setVehiclesLoading(true);
+        setVehicles(await vehicleApi.getVehicles());
       } catch (error) {
-        console.error('Error loading data:', error);
+        console.error('Error loading vehicles:', error);
+        setVehiclesError(error instanceof Error ? error.message : 'Failed to load vehicles');
+      } finally {
+        setVehiclesLoading(false);
       }
     };
 
-    loadData();
-  }, [isAuthenticated, isCheckingAuth, user]);
+    loadVehicles();
+  }, [user, setVehicles, setVehiclesLoading, setVehiclesError]);
 
   // Check availability
   useEffect(() => {
-    if (!isAuthenticated || isCheckingAuth) return;
-    if (selectedCenter && selectedService && selectedDate) {
+    if (selectedCenter && selectedServices.length > 0 && selectedDate) {
       checkAvailability();
     } else {
       setAvailability(null);
     }
-  }, [selectedCenter, selectedService, selectedDate, isAuthenticated, isCheckingAuth]);
-
-  if (isLoading || isCheckingAuth) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
-          <p className="mt-4 text-gray-600">Checking authentication...</p>
-        </div>
-      </div>
-    );
-  }
-
-  if (!isAuthenticated) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="text-center">
-          <p className="text-gray-600">Redirecting to login...</p>
-        </div>
-      </div>
-    );
-  }
+  }, [selectedCenter, selectedServices, selectedDate]);
 
   const checkAvailability = async () => {
-    if (!selectedCenter || !selectedService || !selectedDate) return;
+    if (!selectedCenter || selectedServices.length === 0 || !selectedDate) return;
 
     setLoading(true);
     try {
       const availabilityData = await bookingAPI.checkAvailability(
         selectedCenter,
         selectedDate,
-        selectedService
+        selectedServices
       );
       setAvailability(availabilityData);
     } catch (error) {
@@ -112,9 +92,68 @@ const Home: React.FC = () => {
     }
   };
 
-  const handleSlotSelect = (slot: TimeSlot) => {
-    setSelectedSlot(slot);
-    setBookingSuccess(null);
+  const slotHold = useSlotHold(() => {
+    setSelectedSlot(null);
+    toast.error('Your slot hold expired. Please pick a slot again.');
+    checkAvailability();
+  });
+
+  // Gives up the picked slot so other customers can book it
+  const dropSlot = () => {
+    slotHold.release();
+    setSelectedSlot(null);
+  };
+
+  // Slots belong to one center, and some chosen services may not be offered at the new one
+  const handleCenterChange = (centerId: number) => {
+    setSelectedCenter(centerId || null);
+    dropSlot();
+
+    const dropped = services.filter(
+      s => selectedServices.includes(s.id) && (!centerId || !isOfferedAt(s, centerId))
+    );
+    if (dropped.length === 0) return;
+
+    setSelectedServices(selectedServices.filter(id => !dropped.some(s => s.id === id)));
+    if (centerId) {
+      const center = centers.find(c => c.id === centerId);
+      toast(`${dropped.map(s => s.name).join(', ')} removed: not offered at ${center?.name ?? 'this center'}.`);
+    }
+  };
+
+  const handleDateSelect = (date: string, earliestStart?: string) => {
+    setSelectedDate(date);
+    dropSlot();
+    setHighlightedStart(earliestStart ?? null);
+  };
+
+  // The slot is only shown as picked once the hold is in place
+  const handleSlotSelect = async (slot: TimeSlot) => {
+    if (!user || !selectedCenter) return;
+
+    setHoldingStart(slot.start_time);
+    try {
+      const hold = await slotHold.place({
+        center_id: selectedCenter,
+        service_ids: selectedServices,
+        customer_id: user.id,
+        date: selectedDate,
+        start_time: slot.start_time,
+        end_time: slot.end_time,
+      });
+      if (hold) setSelectedSlot(slot);
+    } catch (error) {
+      console.error('Error holding slot:', error);
+      setSelectedSlot(null);
+      if (isSlotConflict(error)) {
+        toast.error('Sorry, that slot was just taken. Here is the latest availability.');
+        await checkAvailability();
+      } else {
+        toast.error(`Could not hold this slot: ${handleApiError(error)}`);
+      }
+    } finally {
+      setHoldingStart(null);
+    }
   };
 
   const handleBookingSubmit = async (bookingData: BookingData) => {
@@ -125,32 +164,54 @@ const Home: React.FC = () => {
 
     setBookingLoading(true);
     try {
-      const finalData = {
-        ...bookingData,
-        customer_id: user!.id,
-        vehicle_Name: selectedVehicle,
-      };
-
-      await bookingAPI.createBooking(finalData);
+      const booking = await bookingAPI.createBooking({ ...bookingData, hold_id: slotHold.hold?.id });
 
+      slotHold.consume();
+      setConfirmedBooking(booking);
       setShowSuccessModal(true);
       setSelectedSlot(null);
       await checkAvailability();
     } catch (error) {
       console.error('Error creating booking:', error);
-      alert('Error creating booking. Please try again.');
+      if (isSlotConflict(error)) {
+        dropSlot();
+        toast.error('Sorry, another customer booked this slot first. Availability has been refreshed.');
+        await checkAvailability();
+      } else {
+        alert('Error creating booking. Please try again.');
+      }
     } finally {
       setBookingLoading(false);
     }
   };
 
+  // A vehicle added from the booking page is the one being booked
+  const handleVehicleAdded = (vehicle: Vehicle) => setSelectedVehicle(vehicle._id);
+
   const handleSuccessModalClose = () => {
     setShowSuccessModal(false);
     router.push('/');
   };
 
-  const getSelectedService = () => services.find(s => s.id === selectedService) || null;
+  // Priced for the selected center, in the order they were picked
+  const getSelectedServices = () => {
+    if (!selectedCenter) return [];
+    const centerServices = getServicesForCenter(services, selectedCenter);
+    return selectedServices.flatMap(id => centerServices.filter(s => s.id === id));
+  };
   const getSelectedCenter = () => centers.find(c => c.id === selectedCenter) || null;
+  const getSelectedVehicle = () => vehicles.find(v => v._id === selectedVehicle) || null;
+
+  const getConfirmationDetails = () => {
+    if (!confirmedBooking) return [];
+    const vehicle = vehicles.find(v => v._id === confirmedBooking.vehicle_id);
+    return [
+      { label: 'Booking reference', value: <span className="font-mono">{confirmedBooking.reference}</span> },
+      { label: 'Vehicle', value: vehicle ? `${vehicle.brand} ${vehicle.model} (${vehicle.licensePlate})` : '—' },
+      { label: 'Date', value: confirmedBooking.date },
+      { label: 'Time', value: `${confirmedBooking.start_time} - ${confirmedBooking.end_time}` },
+    ];
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50/30 py-8">
@@ -176,36 +237,29 @@ const Home: React.FC = () => {
           </div>
         </div>
 
-        {/* Success Message */}
-        {bookingSuccess && (
-          <Card className="mb-8 bg-green-50 border-l-4 border-green-400 shadow-sm">
-            <div className="text-green-900 text-center py-4 font-medium">
-              {bookingSuccess}
-            </div>
-          </Card>
-        )}
-
         {/* Service Selection Card */}
         <Card className="mb-8 p-6 shadow-lg border border-gray-200 rounded-xl bg-white">
           <ServiceSelector
             centers={centers}
             services={services}
             selectedCenter={selectedCenter}
-            selectedService={selectedService}
-            onCenterChange={setSelectedCenter}
-            onServiceChange={setSelectedService}
+            selectedServices={selectedServices}
+            onCenterChange={handleCenterChange}
+            onServicesChange={(serviceIds) => {
+              setSelectedServices(serviceIds);
+              dropSlot();
+            }}
           />
 
           <div className="mt-6">
-            <label className="block text-sm font-medium text-gray-700 mb-2">
+            <p className="block text-sm font-medium text-gray-700 mb-2">
               Select Date
-            </label>
-            <input
-              type="date"
-              value={selectedDate}
-              onChange={(e) => setSelectedDate(e.target.value)}
-              min={new Date().toISOString().split('T')[0]}
-              className="w-full p-3 bg-gray-50 text-gray-900 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+            </p>
+            <AvailabilityCalendar
+              centerId={selectedCenter}
+              serviceIds={selectedServices}
+              selectedDate={selectedDate}
+              onDateSelect={handleDateSelect}
             />
           </div>
         </Card>
@@ -213,9 +267,12 @@ const Home: React.FC = () => {
         {/* Availability Display */}
         <AvailabilityDisplay
           availability={availability}
-          selectedService={getSelectedService()}
+          selectedServices={getSelectedServices()}
           selectedDate={selectedDate}
           onSlotSelect={handleSlotSelect}
+          onDateSelect={handleDateSelect}
+          highlightedStart={highlightedStart}
+          holdingStart={holdingStart}
           loading={loading}
         />
 
@@ -227,21 +284,33 @@ const Home: React.FC = () => {
               vehicles={vehicles}
               selectedVehicle={selectedVehicle}
               onVehicleChange={setSelectedVehicle}
+              onAddVehicle={() => setIsAddVehicleOpen(true)}
+              loading={vehiclesLoading}
             />
 
             {/* Booking Form */}
             <BookingForm
               selectedSlot={selectedSlot}
               selectedCenter={getSelectedCenter()}
-              selectedService={getSelectedService()}
+              selectedServices={getSelectedServices()}
+              selectedVehicle={getSelectedVehicle()}
+              customer={user}
               selectedDate={selectedDate}
               onBookingSubmit={handleBookingSubmit}
-              onCancel={() => setSelectedSlot(null)}
+              onCancel={dropSlot}
+              holdSecondsLeft={slotHold.hold ? slotHold.secondsLeft : null}
               loading={bookingLoading}
             />
           </div>
         )}
 
+        {/* Inline vehicle management */}
+        <AddVehicle
+          isOpen={isAddVehicleOpen}
+          onClose={() => setIsAddVehicleOpen(false)}
+          onVehicleAdded={handleVehicleAdded}
+        />
+
         {/* Success Modal */}
         <SuccessModal
           isOpen={showSuccessModal}
@@ -249,10 +318,18 @@ const Home: React.FC = () => {
           title="Appointment Booked Successfully!"
           message="Your service appointment has been confirmed. You will receive a confirmation email shortly."
           buttonText="Back to Dashboard"
+          details={getConfirmationDetails()}
         />
       </div>
     </div>
   );
 };
 
-export default Home;
+// Access is enforced by middleware.ts; CustomerOnly loads the profile client-side
+const BookingPage: React.FC = () => (
+  <CustomerOnly>
+    <Home />
+  </CustomerOnly>
+);
+
+export default BookingPage;
@@ -1,36 +1,60 @@
 import React from 'react';
-import { Vehicle } from '../types';
+import { Vehicle } from '@/lib/store/vehicleStore';
 
 interface VehicleSelectorProps {
   vehicles: Vehicle[];
   selectedVehicle: string | null;
   onVehicleChange: (vehicleId: string) => void;
+  onAddVehicle?: () => void;
+  loading?: boolean;
 }
 
 export const VehicleSelector: React.FC<VehicleSelectorProps> = ({
   vehicles,
   selectedVehicle,
   onVehicleChange,
+  onAddVehicle,
+  loading = false,
 }) => {
   return (
     <div className="mb-6">
-      <label className="block text-sm font-medium text-gray-700 mb-2">
-        Select Vehicle
-      </label>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Select Vehicle
+        </label>
+        {onAddVehicle && (
+          <button
+            type="button"
+            onClick={onAddVehicle}
+            className="text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            + Add vehicle
+          </button>
+        )}
+      </div>
 
       <select
         value={selectedVehicle || ''}
         onChange={(e) => onVehicleChange(e.target.value)}
+        disabled={loading}
         className="w-full p-3 bg-gray-800/60 text-white border border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-400 focus:border-indigo-400"
       >
-        <option value="">Choose your vehicle</option>
+        <option value="">
+          {loading ? 'Loading your vehicles...' : 'Choose your vehicle'}
+        </option>
 
-        {vehicles.map((vehicle, idx) => (
-          <option key={idx} value={vehicle.type}> {/* <-- use type */}
-            {vehicle.type}
+        {vehicles.map((vehicle) => (
+          <option key={vehicle._id} value={vehicle._id}>
+            {vehicle.brand} {vehicle.model} ({vehicle.licensePlate})
           </option>
         ))}
       </select>
+
+      {!loading && vehicles.length === 0 && (
+        <p className="mt-2 text-sm text-gray-500">
+          You have no saved vehicles yet. Add one to continue booking.
+        </p>
+      )}
     </div>
   );
 };
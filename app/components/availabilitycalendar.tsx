@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import dayjs from 'dayjs';
+import { IoChevronBack, IoChevronForward } from 'react-icons/io5';
+import { Button } from './ui/buttons';
+import { useAvailabilityCalendar } from '@/lib/hooks/useAvailabilityCalendar';
+import {
+  CalendarView,
+  EARLIEST_SEARCH_DAYS,
+  SlotDensity,
+  getCalendarRange,
+  getSlotDensity,
+  getToday,
+  shiftAnchor,
+} from '@/lib/models/availabilityCalendar';
+import { handleApiError } from '@/lib/api/clientFactory';
+
+interface AvailabilityCalendarProps {
+  centerId: number | null;
+  serviceIds: number[];
+  selectedDate: string;
+  // earliestStart is set when the customer jumped to the earliest free slot
+  onDateSelect: (date: string, earliestStart?: string) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DENSITY_CLASSES: Record<SlotDensity, string> = {
+  none: 'bg-gray-100 text-gray-400',
+  low: 'bg-amber-100 text-amber-700',
+  high: 'bg-green-100 text-green-700',
+};
+
+export const AvailabilityCalendar: React.FC<AvailabilityCalendarProps> = ({
+  centerId,
+  serviceIds,
+  selectedDate,
+  onDateSelect,
+}) => {
+  const today = getToday();
+  const [view, setView] = useState<CalendarView>('month');
+  const [anchor, setAnchor] = useState(selectedDate || today);
+  const [jumping, setJumping] = useState(false);
+  const [jumpMessage, setJumpMessage] = useState('');
+
+  // Follow dates picked outside the calendar, e.g. a suggested date
+  useEffect(() => {
+    if (selectedDate) setAnchor(selectedDate);
+  }, [selectedDate]);
+
+  const range = getCalendarRange(anchor, view);
+  const { days, isLoading, error, findEarliest } = useAvailabilityCalendar(centerId, serviceIds, range.from, range.to);
+  const hasSelection = !!centerId && serviceIds.length > 0;
+  const slotsByDate = new Map(days.map((day) => [day.date, day.num_slots]));
+
+  // No point paging back before the current month or week
+  const canGoBack = range.from > today;
+
+  const handleJumpToEarliest = async () => {
+    setJumping(true);
+    setJumpMessage('');
+    try {
+      const earliest = await findEarliest();
+      if (earliest) {
+        onDateSelect(earliest.date, earliest.earliest_start ?? undefined);
+      } else {
+        setJumpMessage(`No free slots in the next ${EARLIEST_SEARCH_DAYS} days.`);
+      }
+    } catch (err) {
+      console.error('Error finding earliest slot:', err);
+      setJumpMessage(handleApiError(err));
+    } finally {
+      setJumping(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setAnchor(shiftAnchor(anchor, view, -1))}
+            disabled={!canGoBack}
+            aria-label={`Previous ${view}`}
+            className="p-2 rounded-lg text-gray-700 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+          >
+            <IoChevronBack />
+          </button>
+          <h3 className="min-w-44 text-center font-semibold text-gray-900">
+            {view === 'month'
+              ? dayjs(anchor).format('MMMM YYYY')
+              : `${dayjs(range.from).format('MMM D')} - ${dayjs(range.to).format('MMM D, YYYY')}`}
+          </h3>
+          <button
+            type="button"
+            onClick={() => setAnchor(shiftAnchor(anchor, view, 1))}
+            aria-label={`Next ${view}`}
+            className="p-2 rounded-lg text-gray-700 hover:bg-gray-100"
+          >
+            <IoChevronForward />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+            {(['month', 'week'] as CalendarView[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                className={`px-3 py-1.5 capitalize ${
+                  view === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <Button
+            onClick={handleJumpToEarliest}
+            disabled={!hasSelection || jumping}
+            className="text-sm"
+          >
+            {jumping ? 'Searching...' : 'Earliest available'}
+          </Button>
+        </div>
+      </div>
+
+      {jumpMessage && <p className="mb-3 text-sm text-red-600">{jumpMessage}</p>}
+      {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+
+      <div className={`grid grid-cols-7 gap-1 transition-opacity ${isLoading ? 'opacity-60' : ''}`}>
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="py-1 text-center text-xs font-medium text-gray-500">
+            {weekday}
+          </div>
+        ))}
+        {range.days.map((date) => {
+          const isPast = date < today;
+          const inMonth = view === 'week' || dayjs(date).month() === dayjs(anchor).month();
+          const slots = slotsByDate.get(date);
+          const isSelected = date === selectedDate;
+
+          return (
+            <button
+              key={date}
+              type="button"
+              disabled={isPast}
+              onClick={() => onDateSelect(date)}
+              className={`flex flex-col items-center justify-between rounded-lg border p-1.5 text-sm transition-colors ${
+                view === 'week' ? 'h-24' : 'h-16'
+              } ${
+                isSelected
+                  ? 'border-blue-600 ring-2 ring-blue-200'
+                  : 'border-gray-200 hover:border-blue-400'
+              } ${isPast ? 'cursor-not-allowed opacity-40' : ''} ${inMonth ? 'text-gray-900' : 'text-gray-400'}`}
+            >
+              <span className={date === today ? 'font-bold text-blue-600' : ''}>
+                {dayjs(date).date()}
+              </span>
+              {hasSelection && !isPast && slots !== undefined && (
+                <span className={`rounded-full px-2 text-xs ${DENSITY_CLASSES[getSlotDensity(slots)]}`}>
+                  {slots === 0 ? 'Full' : `${slots} free`}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {hasSelection ? (
+        <div className="mt-3 flex flex-wrap gap-4 text-xs text-gray-500">
+          <span className="flex items-center gap-1">
+            <span className={`h-3 w-3 rounded-full ${DENSITY_CLASSES.high}`} /> Plenty of slots
+          </span>
+          <span className="flex items-center gap-1">
+            <span className={`h-3 w-3 rounded-full ${DENSITY_CLASSES.low}`} /> Filling up
+          </span>
+          <span className="flex items-center gap-1">
+            <span className={`h-3 w-3 rounded-full ${DENSITY_CLASSES.none}`} /> Fully booked
+          </span>
+        </div>
+      ) : (
+        <p className="mt-3 text-xs text-gray-500">
+          Choose a center and services to see how busy each day is.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -2,20 +2,29 @@ import React from 'react';
 import { AvailabilityResponse, TimeSlot, Service } from '../types';
 import { Button } from './ui/buttons';
 import { Card } from './ui/card';
+import { getTotalDuration } from '@/lib/models/catalog';
 
 interface AvailabilityDisplayProps {
   availability: AvailabilityResponse | null;
-  selectedService: Service | null;
+  selectedServices: Service[];
   selectedDate: string;
   onSlotSelect: (slot: TimeSlot) => void;
+  onDateSelect: (date: string) => void;
+  // Start time to point out, e.g. after jumping to the earliest slot
+  highlightedStart?: string | null;
+  // Start time of the slot being held, while the request is in flight
+  holdingStart?: string | null;
   loading: boolean;
 }
 
 export const AvailabilityDisplay: React.FC<AvailabilityDisplayProps> = ({
   availability,
-  selectedService,
+  selectedServices,
   selectedDate,
   onSlotSelect,
+  onDateSelect,
+  highlightedStart,
+  holdingStart = null,
   loading,
 }) => {
   if (loading) {
@@ -33,7 +42,7 @@ export const AvailabilityDisplay: React.FC<AvailabilityDisplayProps> = ({
     return (
       <Card>
         <div className="text-center py-8 text-gray-500">
-          Select a center, service, and date to see available slots
+          Select a center, services, and date to see available slots
         </div>
       </Card>
     );
@@ -52,13 +61,19 @@ export const AvailabilityDisplay: React.FC<AvailabilityDisplayProps> = ({
             <div className="mt-6">
               <h3 className="font-semibold mb-3">Suggested Dates:</h3>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-                {availability.suggested_dates.map((suggestion, index) => (
-                  <div key={index} className="p-3 bg-gray-50 rounded-lg text-center">
+                {availability.suggested_dates.map((suggestion) => (
+                  <button
+                    key={suggestion.date}
+                    type="button"
+                    onClick={() => onDateSelect(suggestion.date)}
+                    className="p-3 bg-gray-50 rounded-lg text-center border border-transparent hover:border-blue-500 hover:bg-blue-50 transition-colors"
+                  >
                     <div className="font-medium">{suggestion.date}</div>
                     <div className="text-sm text-gray-600">
                       {suggestion.num_slots} slots available
+                      {suggestion.earliest_start && ` from ${suggestion.earliest_start}`}
                     </div>
-                  </div>
+                  </button>
                 ))}
               </div>
             </div>
@@ -78,19 +93,26 @@ export const AvailabilityDisplay: React.FC<AvailabilityDisplayProps> = ({
         {availability.slots.map((slot, index) => (
           <div
             key={index}
-            className="p-4 border border-gray-200 rounded-lg hover:border-blue-500 hover:bg-blue-50 transition-colors"
+            className={`p-4 border rounded-lg hover:border-blue-500 hover:bg-blue-50 transition-colors ${
+              slot.start_time === highlightedStart ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-200'
+            }`}
           >
+            {slot.start_time === highlightedStart && (
+              <div className="text-xs font-semibold text-blue-600 text-center mb-1">Earliest available</div>
+            )}
             <div className="text-black text-lg font-semibold text-center mb-2">
               {slot.start_time} - {slot.end_time}
             </div>
             <div className="text-blacktext-sm text-gray-600 text-center mb-3">
-              {selectedService?.duration_minutes} min service
+              {getTotalDuration(selectedServices)} min
+              {selectedServices.length > 1 ? ` for ${selectedServices.length} services` : ' service'}
             </div>
             <Button
               onClick={() => onSlotSelect(slot)}
+              disabled={holdingStart !== null}
               className="w-full"
             >
-              Book This Slot
+              {holdingStart === slot.start_time ? 'Holding...' : 'Book This Slot'}
             </Button>
           </div>
         ))}
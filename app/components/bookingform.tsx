@@ -1,43 +1,70 @@
 import React, { useState } from 'react';
 import { BookingData, TimeSlot, Center, Service } from '../types';
+import { Vehicle } from '@/lib/store/vehicleStore';
 import { Button } from './ui/buttons';
 import { Card } from './ui/card';
+import { getTotalDuration, getTotalPrice } from '@/lib/models/catalog';
+import { HOLD_WARNING_SECONDS, formatCountdown } from '@/lib/models/slotHold';
 
 interface BookingFormProps {
   selectedSlot: TimeSlot | null;
   selectedCenter: Center | null;
-  selectedService: Service | null;
+  // Priced for the selected center
+  selectedServices: Service[];
+  selectedVehicle: Vehicle | null;
+  customer: UserResponse | null;
   selectedDate: string;
   onBookingSubmit: (bookingData: BookingData) => void;
   onCancel: () => void;
+  // Seconds until the held slot is released; null when nothing is held
+  holdSecondsLeft?: number | null;
   loading?: boolean;
 }
 
+const PHONE_PATTERN = /^\+?[0-9\s-]{7,15}$/;
+
 export const BookingForm: React.FC<BookingFormProps> = ({
   selectedSlot,
   selectedCenter,
-  selectedService,
+  selectedServices,
+  selectedVehicle,
+  customer,
   selectedDate,
   onBookingSubmit,
   onCancel,
+  holdSecondsLeft = null,
   loading = false,
 }) => {
-  const [customerName, setCustomerName] = useState('');
+  const [contactPhone, setContactPhone] = useState('');
+  const [notes, setNotes] = useState('');
+  const [phoneError, setPhoneError] = useState('');
 
-  if (!selectedSlot || !selectedCenter || !selectedService) {
+  if (!selectedSlot || !selectedCenter || selectedServices.length === 0 || !customer) {
     return null;
   }
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    
+    if (!selectedVehicle) return;
+
+    const phone = contactPhone.trim();
+    if (phone && !PHONE_PATTERN.test(phone)) {
+      setPhoneError('Enter a valid phone number');
+      return;
+    }
+
     const bookingData: BookingData = {
       center_id: selectedCenter.id,
-      service_id: selectedService.id,
+      service_id: selectedServices[0].id,
+      service_ids: selectedServices.map((service) => service.id),
+      customer_id: customer.id,
+      vehicle_id: selectedVehicle._id,
       date: selectedDate,
       start_time: selectedSlot.start_time,
       end_time: selectedSlot.end_time,
-      customer_name: customerName,
+      customer_name: `${customer.firstName} ${customer.lastName}`,
+      contact_phone: phone || undefined,
+      notes: notes.trim() || undefined,
     };
 
     onBookingSubmit(bookingData);
@@ -46,36 +73,100 @@ export const BookingForm: React.FC<BookingFormProps> = ({
   return (
     <Card className="mt-6">
       <h2 className="text-black text-xl font-semibold mb-4">Complete Your Booking</h2>
+
+      {holdSecondsLeft !== null && (
+        <div
+          className={`mb-4 p-3 rounded-lg text-sm ${
+            holdSecondsLeft <= HOLD_WARNING_SECONDS
+              ? 'bg-amber-50 text-amber-800 border border-amber-200'
+              : 'bg-blue-50 text-blue-800 border border-blue-200'
+          }`}
+          role="timer"
+        >
+          We&apos;re holding this slot for you for{' '}
+          <span className="font-mono font-semibold">{formatCountdown(holdSecondsLeft)}</span>.
+          {holdSecondsLeft <= HOLD_WARNING_SECONDS && ' Confirm soon or it will be released.'}
+        </div>
+      )}
       
       <div className="text-black mb-6 p-4 bg-gray-50 rounded-lg">
         <h3 className="font-semibold mb-2">Booking Details:</h3>
+        <p><strong>Customer:</strong> {customer.firstName} {customer.lastName} ({customer.email})</p>
+        <p>
+          <strong>Vehicle:</strong>{' '}
+          {selectedVehicle
+            ? `${selectedVehicle.brand} ${selectedVehicle.model} (${selectedVehicle.licensePlate})`
+            : 'Select a vehicle above'}
+        </p>
         <p><strong>Center:</strong> {selectedCenter.name}</p>
-        <p><strong>Service:</strong> {selectedService.name}</p>
         <p><strong>Date:</strong> {selectedDate}</p>
         <p><strong>Time:</strong> {selectedSlot.start_time} - {selectedSlot.end_time}</p>
-        <p><strong>Duration:</strong> {selectedService.duration_minutes} minutes</p>
-        <p><strong>Price:</strong> ${selectedService.price}</p>
+        <p><strong>Duration:</strong> {getTotalDuration(selectedServices)} minutes</p>
+
+        <table className="w-full mt-3 text-sm">
+          <thead>
+            <tr className="border-b border-gray-300 text-left text-gray-600">
+              <th className="py-1 font-medium">Service</th>
+              <th className="py-1 font-medium text-right">Duration</th>
+              <th className="py-1 font-medium text-right">Price</th>
+            </tr>
+          </thead>
+          <tbody>
+            {selectedServices.map((service) => (
+              <tr key={service.id} className="border-b border-gray-200">
+                <td className="py-1">{service.name}</td>
+                <td className="py-1 text-right">{service.duration_minutes} min</td>
+                <td className="py-1 text-right">${Number(service.price).toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="font-semibold">
+              <td className="pt-2" colSpan={2}>Total</td>
+              <td className="pt-2 text-right">${getTotalPrice(selectedServices).toFixed(2)}</td>
+            </tr>
+          </tfoot>
+        </table>
       </div>
 
       <form onSubmit={handleSubmit}>
         <div className="mb-4 text-black">
           <label className="block text-sm font-medium text-gray-700 mb-2">
-            Customer Name
+            Contact Phone <span className="text-gray-400">(optional)</span>
           </label>
           <input
-            type="text"
-            value={customerName}
-            onChange={(e) => setCustomerName(e.target.value)}
-            required
-            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            placeholder="Enter your full name"
+            type="tel"
+            value={contactPhone}
+            onChange={(e) => {
+              setContactPhone(e.target.value);
+              setPhoneError('');
+            }}
+            className={`w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+              phoneError ? 'border-red-300' : 'border-gray-300'
+            }`}
+            placeholder="e.g. +94 77 123 4567"
+          />
+          {phoneError && <p className="mt-1 text-sm text-red-600">{phoneError}</p>}
+        </div>
+
+        <div className="mb-4 text-black">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Notes <span className="text-gray-400">(optional)</span>
+          </label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+            maxLength={500}
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+            placeholder="Anything the technician should know?"
           />
         </div>
 
         <div className="flex gap-3">
           <Button
             type="submit"
-            disabled={!customerName.trim() || loading}
+            disabled={!selectedVehicle || loading}
             className="flex-1"
           >
             {loading ? 'Booking...' : 'Confirm Booking'}
@@ -92,4 +183,4 @@ export const BookingForm: React.FC<BookingFormProps> = ({
       </form>
     </Card>
   );
-};
\ No newline at end of file
+};
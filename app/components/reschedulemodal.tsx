@@ -0,0 +1,143 @@
+"use client";
+import React, { useEffect, useState } from 'react';
+import { Booking } from '@/lib/models/booking';
+import { AvailabilityResponse, TimeSlot } from '../types';
+import { bookingAPI } from '../utils/api';
+import { Button } from './ui/buttons';
+
+interface RescheduleModalProps {
+  booking: Booking | null;
+  onClose: () => void;
+  onConfirm: (slot: { date: string; start_time: string; end_time: string }) => void;
+  loading?: boolean;
+}
+
+export const RescheduleModal: React.FC<RescheduleModalProps> = ({
+  booking,
+  onClose,
+  onConfirm,
+  loading = false,
+}) => {
+  const [date, setDate] = useState('');
+  const [availability, setAvailability] = useState<AvailabilityResponse | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState('');
+
+  // Reset whenever a different booking is opened
+  useEffect(() => {
+    setDate('');
+    setAvailability(null);
+    setSelectedSlot(null);
+    setError('');
+  }, [booking?.bookingId]);
+
+  // Re-run availability for the new date
+  useEffect(() => {
+    if (!booking?.center || !booking.service || !date) return;
+
+    const centerId = booking.center.id;
+    // The new slot has to fit every booked service again
+    const serviceIds = booking.services?.length
+      ? booking.services.map((service) => service.id)
+      : [booking.service.id];
+    let cancelled = false;
+
+    const loadSlots = async () => {
+      setChecking(true);
+      setSelectedSlot(null);
+      setError('');
+      try {
+        const result = await bookingAPI.checkAvailability(centerId, date, serviceIds);
+        if (!cancelled) setAvailability(result);
+      } catch (err) {
+        console.error('Error checking availability:', err);
+        if (!cancelled) setError('Could not load available slots. Please try again.');
+      } finally {
+        if (!cancelled) setChecking(false);
+      }
+    };
+
+    loadSlots();
+    return () => {
+      cancelled = true;
+    };
+  }, [booking, date]);
+
+  if (!booking) return null;
+
+  const canCheck = !!booking.center && !!booking.service;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full p-6 text-gray-900">
+        <h3 className="text-lg font-semibold mb-1">Reschedule Booking</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {booking.serviceName}
+          {booking.center && ` at ${booking.center.name}`} — currently{' '}
+          {booking.date.split('T')[0]} {booking.startTime}
+        </p>
+
+        {!canCheck ? (
+          <p className="text-sm text-red-600 mb-4">
+            This booking can&apos;t be rescheduled online. Please contact the service center.
+          </p>
+        ) : (
+          <>
+            <label className="block text-sm font-medium text-gray-700 mb-2">New date</label>
+            <input
+              type="date"
+              value={date}
+              min={new Date().toISOString().split('T')[0]}
+              onChange={(e) => setDate(e.target.value)}
+              className="w-full p-3 bg-gray-50 border border-gray-300 rounded-lg mb-4 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+
+            {checking && <p className="text-sm text-gray-500 mb-4">Checking availability...</p>}
+            {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+            {!checking && availability && !availability.available && (
+              <p className="text-sm text-gray-600 mb-4">
+                {availability.message || 'No slots available on this date.'}
+              </p>
+            )}
+
+            {!checking && availability?.available && (
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-4 max-h-56 overflow-y-auto">
+                {availability.slots.map((slot) => (
+                  <button
+                    key={slot.start_time}
+                    type="button"
+                    onClick={() => setSelectedSlot(slot)}
+                    className={`p-2 rounded-lg border text-sm transition-colors ${
+                      selectedSlot?.start_time === slot.start_time
+                        ? 'border-blue-600 bg-blue-50 text-blue-700'
+                        : 'border-gray-200 hover:border-blue-400'
+                    }`}
+                  >
+                    {slot.start_time} - {slot.end_time}
+                  </button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex gap-3 justify-end">
+          <Button variant="secondary" onClick={onClose} disabled={loading}>
+            Close
+          </Button>
+          <Button
+            onClick={() =>
+              selectedSlot &&
+              onConfirm({ date, start_time: selectedSlot.start_time, end_time: selectedSlot.end_time })
+            }
+            disabled={!selectedSlot || loading}
+          >
+            {loading ? 'Saving...' : 'Confirm New Time'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,23 +1,37 @@
 import React from 'react';
 import { Service, Center } from '../types';
+import { getServicesForCenter, getTotalDuration, getTotalPrice } from '@/lib/models/catalog';
 
 interface ServiceSelectorProps {
   centers: Center[];
   services: Service[];
   selectedCenter: number | null;
-  selectedService: number | null;
+  // In the order the customer picked them
+  selectedServices: number[];
   onCenterChange: (centerId: number) => void;
-  onServiceChange: (serviceId: number) => void;
+  onServicesChange: (serviceIds: number[]) => void;
 }
 
 export const ServiceSelector: React.FC<ServiceSelectorProps> = ({
   centers,
   services,
   selectedCenter,
-  selectedService,
+  selectedServices,
   onCenterChange,
-  onServiceChange,
+  onServicesChange,
 }) => {
+  // Only what the chosen center offers, at that center's prices
+  const centerServices = selectedCenter ? getServicesForCenter(services, selectedCenter) : [];
+  const chosen = centerServices.filter((service) => selectedServices.includes(service.id));
+
+  const toggleService = (serviceId: number) => {
+    onServicesChange(
+      selectedServices.includes(serviceId)
+        ? selectedServices.filter((id) => id !== serviceId)
+        : [...selectedServices, serviceId]
+    );
+  };
+
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
       <div>
@@ -41,22 +55,44 @@ export const ServiceSelector: React.FC<ServiceSelectorProps> = ({
 
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-2">
-          Service
+          Services
         </label>
-        <select
-          value={selectedService || ''}
-          onChange={(e) => onServiceChange(Number(e.target.value))}
-          className="w-full p-3 bg-gray-800/60 text-white border border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-400 focus:border-indigo-400"
-          disabled={!selectedCenter}
-        >
-          <option value="">Select a service</option>
-          {services.map((service) => (
-            <option key={service.id} value={service.id}>
-              {service.name} ({service.duration_minutes} min) - ${service.price}
-            </option>
-          ))}
-        </select>
+        {!selectedCenter ? (
+          <p className="p-3 text-sm text-gray-500 border border-dashed border-gray-300 rounded-lg">
+            Select a center to see its services
+          </p>
+        ) : centerServices.length === 0 ? (
+          <p className="p-3 text-sm text-gray-500 border border-dashed border-gray-300 rounded-lg">
+            No services offered at this center
+          </p>
+        ) : (
+          <div className="max-h-60 overflow-y-auto divide-y divide-gray-100 border border-gray-300 rounded-lg">
+            {centerServices.map((service) => (
+              <label
+                key={service.id}
+                className="flex items-center gap-3 p-3 text-sm text-gray-900 cursor-pointer hover:bg-gray-50"
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedServices.includes(service.id)}
+                  onChange={() => toggleService(service.id)}
+                  className="rounded border-gray-300"
+                />
+                <span className="flex-1">{service.name}</span>
+                <span className="text-gray-500">
+                  {service.duration_minutes} min - ${service.price}
+                </span>
+              </label>
+            ))}
+          </div>
+        )}
+        {chosen.length > 1 && (
+          <p className="mt-2 text-sm text-gray-600">
+            {chosen.length} services, {getTotalDuration(chosen)} min in one visit - $
+            {getTotalPrice(chosen).toFixed(2)}
+          </p>
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -7,6 +7,7 @@ interface SuccessModalProps {
   title?: string;
   message?: string;
   buttonText?: string;
+  details?: Array<{ label: string; value: React.ReactNode }>;
 }
 
 export const SuccessModal: React.FC<SuccessModalProps> = ({
@@ -14,7 +15,8 @@ export const SuccessModal: React.FC<SuccessModalProps> = ({
   onClose,
   title = "Booking Confirmed!",
   message = "Your appointment has been successfully booked.",
-  buttonText = "OK"
+  buttonText = "OK",
+  details = [],
 }) => {
   if (!isOpen) return null;
 
@@ -47,6 +49,18 @@ export const SuccessModal: React.FC<SuccessModalProps> = ({
             {message}
           </p>
 
+          {/* Optional summary rows */}
+          {details.length > 0 && (
+            <dl className="mb-6 rounded-lg bg-gray-50 p-4 text-left text-sm">
+              {details.map((detail) => (
+                <div key={detail.label} className="flex justify-between gap-4 py-1">
+                  <dt className="text-gray-500">{detail.label}</dt>
+                  <dd className="font-medium text-gray-900 text-right">{detail.value}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+
           {/* OK Button */}
           <button
             onClick={onClose}
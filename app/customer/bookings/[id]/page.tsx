@@ -0,0 +1,215 @@
+"use client";
+
+import { CustomerOnly } from "@/components/auth/ProtectedRoute";
+import ServiceReportButton from "@/components/booking/ServiceReportButton";
+import StatusBadge from "@/components/booking/StatusBadge";
+import StatusHistory from "@/components/booking/StatusHistory";
+import ProgressTimeline from "@/components/project/ProgressTimeline";
+import QuoteReview from "@/components/project/QuoteReview";
+import { useBookingProjects } from "@/lib/hooks/useBookingProjects";
+import { useAuth } from "@/lib/store/authStore";
+import { useCountdown } from "@/lib/hooks/useCountdown";
+import { useCustomerBookings } from "@/lib/hooks/useCustomerBookings";
+import { getBookedServices } from "@/lib/models/booking";
+import { getTotalPrice } from "@/lib/models/catalog";
+import dayjs from "dayjs";
+import Link from "next/link";
+import React from "react";
+
+/**
+ * Customer booking detail page
+ *
+ * Features:
+ * - Appointment, vehicle and service center details
+ * - Countdown to the appointment while it is upcoming
+ * - Status history timeline
+ * - Progress updates and photos posted while the job runs
+ * - Report and invoice download once the job is completed
+ */
+export default function CustomerBookingDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = React.use(params);
+
+  return (
+    <CustomerOnly>
+      <CustomerBookingDetail id={id} />
+    </CustomerOnly>
+  );
+}
+
+function CustomerBookingDetail({ id }: { id: string }) {
+  const { user } = useAuth();
+  const { bookings, isLoading, error, reload } = useCustomerBookings();
+  const { getProjectForBooking } = useBookingProjects({
+    customerId: user ? String(user.id) : undefined,
+  });
+  const booking = bookings.find((b) => b.bookingId === id);
+  const project = getProjectForBooking(id);
+  const countdown = useCountdown(booking?.date);
+
+  if (isLoading && !booking) {
+    return (
+      <div className="flex min-h-screen justify-center bg-gray-50 py-16">
+        <div className="h-10 w-10 animate-spin rounded-full border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!booking) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <p className="mb-2 text-lg font-semibold text-gray-900">
+            {error ?? "Booking not found"}
+          </p>
+          {error ? (
+            <button
+              onClick={reload}
+              className="text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Retry
+            </button>
+          ) : (
+            <Link
+              href="/customer/bookings"
+              className="text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Back to my bookings
+            </Link>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const isUpcoming =
+    (booking.currentStatus === "Pending" ||
+      booking.currentStatus === "Accepted") &&
+    countdown &&
+    !countdown.isPast;
+
+  const services = getBookedServices(booking);
+  const details = [
+    { label: "Reference", value: booking.reference ?? booking.bookingId },
+    {
+      label: "Date",
+      value: dayjs(booking.date).format("dddd, MMM D YYYY"),
+    },
+    {
+      label: "Time",
+      value: booking.endTime
+        ? `${booking.startTime} - ${booking.endTime}`
+        : dayjs(booking.date).format("HH:mm"),
+    },
+    {
+      label: "Service Center",
+      value: booking.center
+        ? `${booking.center.name} - ${booking.center.location}`
+        : "Not specified",
+    },
+    {
+      label: "Vehicle",
+      value: booking.vehicle
+        ? `${booking.vehicle.year} ${booking.vehicle.brand} ${booking.vehicle.model} (${booking.vehicle.licensePlate})`
+        : "Not specified",
+    },
+    {
+      label: "Price",
+      value: services.length ? `$${getTotalPrice(services).toFixed(2)}` : "—",
+    },
+    { label: "Contact Phone", value: booking.contactPhone || "—" },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mx-auto max-w-4xl">
+        <Link
+          href="/customer/bookings"
+          className="text-sm font-medium text-blue-600 hover:text-blue-500"
+        >
+          ← My Bookings
+        </Link>
+
+        <div className="mt-4 mb-8 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold text-gray-900">
+              {booking.serviceName}
+            </h1>
+            <StatusBadge status={booking.currentStatus} />
+          </div>
+          {isUpcoming && (
+            <p className="text-sm font-medium text-blue-700">
+              Starts in {countdown.days > 0 && `${countdown.days}d `}
+              {countdown.hours}h {countdown.minutes}m
+            </p>
+          )}
+          <ServiceReportButton
+            booking={booking}
+            project={project}
+            variant="light"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 gap-8 lg:grid-cols-2">
+          <div className="rounded-lg bg-white shadow">
+            <div className="border-b border-gray-200 px-6 py-4">
+              <h3 className="text-lg font-medium text-gray-900">Appointment</h3>
+            </div>
+            <dl className="divide-y divide-gray-100 px-6 py-2">
+              {details.map(({ label, value }) => (
+                <div key={label} className="flex justify-between gap-4 py-3">
+                  <dt className="text-sm text-gray-500">{label}</dt>
+                  <dd className="text-right text-sm font-medium text-gray-900">
+                    {value}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+            {booking.notes && (
+              <div className="border-t border-gray-200 px-6 py-4">
+                <p className="text-sm text-gray-500">Notes</p>
+                <p className="mt-1 text-sm text-gray-900">{booking.notes}</p>
+              </div>
+            )}
+          </div>
+
+          <div className="rounded-lg bg-white shadow">
+            <div className="border-b border-gray-200 px-6 py-4">
+              <h3 className="text-lg font-medium text-gray-900">
+                Status History
+              </h3>
+            </div>
+            <div className="px-6 py-4 text-gray-900">
+              <StatusHistory history={booking.statusHistory} variant="light" />
+            </div>
+          </div>
+
+          {project && (
+            <div className="lg:col-span-2">
+              <QuoteReview project={project} />
+            </div>
+          )}
+
+          {project && (
+            <div className="rounded-lg bg-white shadow lg:col-span-2">
+              <div className="border-b border-gray-200 px-6 py-4">
+                <h3 className="text-lg font-medium text-gray-900">
+                  Job Progress
+                </h3>
+              </div>
+              <div className="px-6 py-4">
+                <ProgressTimeline
+                  updates={project.progressUpdates}
+                  variant="light"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
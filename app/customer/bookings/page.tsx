@@ -0,0 +1,258 @@
+"use client";
+
+import { RescheduleModal } from "@/app/components/reschedulemodal";
+import { bookingAPI } from "@/app/utils/api";
+import { CustomerOnly } from "@/components/auth/ProtectedRoute";
+import ServiceReportButton from "@/components/booking/ServiceReportButton";
+import StatusBadge from "@/components/booking/StatusBadge";
+import { handleApiError } from "@/lib/api/clientFactory";
+import { useBookingProjects } from "@/lib/hooks/useBookingProjects";
+import { useCustomerBookings } from "@/lib/hooks/useCustomerBookings";
+import {
+  Booking,
+  BookingStatus,
+  fromBookingServicePayload,
+} from "@/lib/models/booking";
+import {
+  canReschedule,
+  getAllowedTransitions,
+} from "@/lib/models/bookingStatus";
+import { useAuth } from "@/lib/store/authStore";
+import { useBookingActions } from "@/lib/store/bookingStore";
+import { useVehicles } from "@/lib/store/vehicleStore";
+import dayjs from "dayjs";
+import Link from "next/link";
+import { useState } from "react";
+import toast from "react-hot-toast";
+
+const FILTERS: Record<string, BookingStatus[] | null> = {
+  All: null,
+  Upcoming: ["Pending", "Accepted"],
+  "In Service": ["In-Progress", "Hold on"],
+  Past: ["Completed", "Rejected", "Cancelled"],
+};
+
+/**
+ * Customer bookings page
+ *
+ * Features:
+ * - Lists the signed-in customer's bookings
+ * - Filters by upcoming, in-service and past bookings
+ * - Cancel bookings that have not started
+ * - Reschedule against fresh availability
+ * - Download the report and invoice of completed bookings
+ */
+export default function CustomerBookingsPage() {
+  return (
+    <CustomerOnly>
+      <CustomerBookingsContent />
+    </CustomerOnly>
+  );
+}
+
+function CustomerBookingsContent() {
+  const { user } = useAuth();
+  const { bookings, isLoading, error, reload } = useCustomerBookings();
+  const { getProjectForBooking, syncProject } = useBookingProjects({
+    customerId: user ? String(user.id) : undefined,
+  });
+  const { upsertBooking } = useBookingActions();
+  const { vehicles } = useVehicles();
+
+  const [filter, setFilter] = useState("All");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [rescheduling, setRescheduling] = useState<Booking | null>(null);
+
+  const visibleStatuses = FILTERS[filter];
+  const filteredBookings = [...bookings]
+    .filter(
+      (b) => !visibleStatuses || visibleStatuses.includes(b.currentStatus),
+    )
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+  const handleCancel = async (booking: Booking) => {
+    if (!window.confirm("Cancel this booking? This cannot be undone.")) return;
+
+    setBusyId(booking.bookingId);
+    try {
+      const updated = await bookingAPI.cancelBooking(booking.bookingId);
+      const cancelled = fromBookingServicePayload(updated, vehicles);
+      upsertBooking(cancelled);
+      toast.success("Booking cancelled");
+
+      // An accepted booking's project is cancelled along with it
+      try {
+        await syncProject(cancelled);
+      } catch (err) {
+        console.error("Failed to cancel project:", err);
+      }
+    } catch (err) {
+      console.error("Failed to cancel booking:", err);
+      toast.error(handleApiError(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReschedule = async (slot: {
+    date: string;
+    start_time: string;
+    end_time: string;
+  }) => {
+    if (!rescheduling) return;
+
+    setBusyId(rescheduling.bookingId);
+    try {
+      const updated = await bookingAPI.rescheduleBooking(
+        rescheduling.bookingId,
+        slot,
+      );
+      upsertBooking(fromBookingServicePayload(updated, vehicles));
+      toast.success("Booking rescheduled");
+      setRescheduling(null);
+    } catch (err) {
+      console.error("Failed to reschedule booking:", err);
+      toast.error(handleApiError(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">My Bookings</h1>
+          <p className="mt-2 text-gray-600">
+            Track, cancel or reschedule your service appointments.
+          </p>
+        </div>
+        <Link
+          href="/booking"
+          className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700"
+        >
+          Book Appointment
+        </Link>
+      </div>
+
+      {/* Filters */}
+      <div className="mb-6 flex flex-wrap gap-2">
+        {Object.keys(FILTERS).map((name) => (
+          <button
+            key={name}
+            onClick={() => setFilter(name)}
+            className={`rounded-full px-4 py-1.5 text-sm font-medium transition-colors ${
+              filter === name
+                ? "bg-blue-600 text-white"
+                : "bg-white text-gray-600 shadow hover:bg-gray-100"
+            }`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mb-4 flex items-center justify-between rounded-md border border-red-200 bg-red-50 px-4 py-3 text-red-700">
+          <span>{error}</span>
+          <button onClick={reload} className="text-sm font-medium underline">
+            Retry
+          </button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <div className="h-10 w-10 animate-spin rounded-full border-b-2 border-blue-600"></div>
+        </div>
+      ) : filteredBookings.length === 0 ? (
+        <div className="rounded-lg bg-white py-16 text-center text-gray-500 shadow">
+          No bookings to show.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {filteredBookings.map((booking) => {
+            const canCancel = getAllowedTransitions(
+              booking.currentStatus,
+              "customer",
+            ).includes("Cancelled");
+
+            return (
+              <div
+                key={booking.bookingId}
+                className="flex flex-col gap-4 rounded-lg bg-white p-5 shadow md:flex-row md:items-center"
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-3">
+                    <Link
+                      href={`/customer/bookings/${booking.bookingId}`}
+                      className="text-lg font-medium text-gray-900 hover:text-blue-600"
+                    >
+                      {booking.serviceName}
+                    </Link>
+                    <StatusBadge status={booking.currentStatus} />
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {booking.center
+                      ? `${booking.center.name} - ${booking.center.location}`
+                      : "Service center not specified"}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {booking.vehicle
+                      ? `${booking.vehicle.brand} ${booking.vehicle.model} - ${booking.vehicle.licensePlate}`
+                      : "Vehicle not specified"}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {dayjs(booking.date).format("ddd, MMM D YYYY")} at{" "}
+                    {booking.startTime ?? dayjs(booking.date).format("HH:mm")}
+                    {booking.reference && (
+                      <span className="ml-2 font-mono text-xs text-gray-400">
+                        #{booking.reference}
+                      </span>
+                    )}
+                  </p>
+                </div>
+
+                <div className="flex shrink-0 gap-2">
+                  <ServiceReportButton
+                    booking={booking}
+                    project={getProjectForBooking(booking.bookingId)}
+                    variant="light"
+                    label="Invoice"
+                  />
+                  {canReschedule(booking.currentStatus) && (
+                    <button
+                      onClick={() => setRescheduling(booking)}
+                      disabled={busyId === booking.bookingId}
+                      className="rounded-md border border-gray-300 px-3 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Reschedule
+                    </button>
+                  )}
+                  {canCancel && (
+                    <button
+                      onClick={() => handleCancel(booking)}
+                      disabled={busyId === booking.bookingId}
+                      className="rounded-md bg-red-600 px-3 py-2 text-sm font-medium text-white transition-colors hover:bg-red-700 disabled:opacity-50"
+                    >
+                      {busyId === booking.bookingId
+                        ? "Cancelling..."
+                        : "Cancel"}
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <RescheduleModal
+        booking={rescheduling}
+        onClose={() => setRescheduling(null)}
+        onConfirm={handleReschedule}
+        loading={!!rescheduling && busyId === rescheduling.bookingId}
+      />
+    </div>
+  );
+}
@@ -1,11 +1,24 @@
 "use client";
 
-import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
+import { CustomerOnly } from "@/components/auth/ProtectedRoute";
+import StatusBadge from "@/components/booking/StatusBadge";
 import { useAuth } from "@/lib/store/authStore";
 import AddVehicle from "@/components/vehicle/AddVehicle";
-import { useState } from "react";
+import { useCountdown } from "@/lib/hooks/useCountdown";
+import { useCustomerBookings } from "@/lib/hooks/useCustomerBookings";
+import { useBookingProjects } from "@/lib/hooks/useBookingProjects";
+import QuoteReview from "@/components/project/QuoteReview";
+import { Booking } from "@/lib/models/booking";
+import { getCustomerStats } from "@/lib/models/customerStats";
+import { useVehicles } from "@/lib/store/vehicleStore";
+import dayjs from "dayjs";
+import relativeTime from "dayjs/plugin/relativeTime";
+import Link from "next/link";
+import { useMemo, useState } from "react";
 import { useRouter } from "next/navigation"; // Import useRouter
 
+dayjs.extend(relativeTime);
+
 /**
  * Customer Dashboard component
  *
@@ -17,9 +30,9 @@ import { useRouter } from "next/navigation"; // Import useRouter
  */
 export default function CustomerDashboard() {
   return (
-    // <ProtectedRoute requiredRole={["ROLE_CUSTOMER"]}>
-    <CustomerDashboardContent />
-    // </ProtectedRoute>
+    <CustomerOnly>
+      <CustomerDashboardContent />
+    </CustomerOnly>
   );
 }
 
@@ -27,9 +40,23 @@ function CustomerDashboardContent() {
   const { user } = useAuth();
   const [isAddVehicleOpen, setIsAddVehicleOpen] = useState(false);
   const router = useRouter(); // Initialize router
+  const { bookings, isLoading } = useCustomerBookings();
+  const { vehicles } = useVehicles();
+  const { projects } = useBookingProjects({
+    customerId: user ? String(user.id) : undefined,
+  });
+  const pendingQuotes = projects.filter((p) => p.quote?.status === "Sent");
+
+  const stats = useMemo(
+    () => getCustomerStats(bookings, vehicles),
+    [bookings, vehicles],
+  );
+
+  // Shown while the first load is in flight
+  const statValue = (value: string | number) => (isLoading ? "…" : value);
 
   const handleBookAppointment = () => {
-    router.push('/booking'); // Navigate to booking page
+    router.push("/booking"); // Navigate to booking page
   };
 
   return (
@@ -75,7 +102,9 @@ function CustomerDashboardContent() {
                   <dt className="truncate text-sm font-medium text-gray-500">
                     My Vehicles
                   </dt>
-                  <dd className="text-lg font-medium text-gray-900">2</dd>
+                  <dd className="text-lg font-medium text-gray-900">
+                    {statValue(stats.vehicleCount)}
+                  </dd>
                 </dl>
               </div>
             </div>
@@ -107,7 +136,9 @@ function CustomerDashboardContent() {
                   <dt className="truncate text-sm font-medium text-gray-500">
                     Active Services
                   </dt>
-                  <dd className="text-lg font-medium text-gray-900">1</dd>
+                  <dd className="text-lg font-medium text-gray-900">
+                    {statValue(stats.inService.length)}
+                  </dd>
                 </dl>
               </div>
             </div>
@@ -139,7 +170,9 @@ function CustomerDashboardContent() {
                   <dt className="truncate text-sm font-medium text-gray-500">
                     Upcoming Appointments
                   </dt>
-                  <dd className="text-lg font-medium text-gray-900">1</dd>
+                  <dd className="text-lg font-medium text-gray-900">
+                    {statValue(stats.upcoming.length)}
+                  </dd>
                 </dl>
               </div>
             </div>
@@ -169,9 +202,11 @@ function CustomerDashboardContent() {
               <div className="ml-5 w-0 flex-1">
                 <dl>
                   <dt className="truncate text-sm font-medium text-gray-500">
-                    Service History
+                    Total Spend
                   </dt>
-                  <dd className="text-lg font-medium text-gray-900">12</dd>
+                  <dd className="text-lg font-medium text-gray-900">
+                    {statValue(`$${stats.totalSpend.toFixed(2)}`)}
+                  </dd>
                 </dl>
               </div>
             </div>
@@ -179,6 +214,25 @@ function CustomerDashboardContent() {
         </div>
       </div>
 
+      {/* Next Appointment */}
+      {!isLoading && stats.nextAppointment && (
+        <NextAppointmentCard booking={stats.nextAppointment} />
+      )}
+
+      {/* Modification quotes waiting on the customer */}
+      {pendingQuotes.length > 0 && (
+        <div className="mb-8">
+          <h2 className="mb-4 text-xl font-semibold text-gray-900">
+            Quotes Awaiting Your Approval
+          </h2>
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            {pendingQuotes.map((project) => (
+              <QuoteReview key={project._id} project={project} />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Quick Actions */}
       <div className="mb-8">
         <h2 className="mb-4 text-xl font-semibold text-gray-900">
@@ -187,8 +241,8 @@ function CustomerDashboardContent() {
         <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
           <button
             onClick={handleBookAppointment}
-            className="rounded-lg bg-blue-600 p-6 text-white transition-colors hover:bg-blue-700">
-
+            className="rounded-lg bg-blue-600 p-6 text-white transition-colors hover:bg-blue-700"
+          >
             <div className="text-center">
               <svg
                 className="mx-auto mb-2 h-8 w-8"
@@ -210,8 +264,10 @@ function CustomerDashboardContent() {
             </div>
           </button>
 
-          <button className="rounded-lg bg-green-600 p-6 text-white transition-colors hover:bg-green-700 cursor-pointer"
-            onClick={() => setIsAddVehicleOpen(true)}>
+          <button
+            className="cursor-pointer rounded-lg bg-green-600 p-6 text-white transition-colors hover:bg-green-700"
+            onClick={() => setIsAddVehicleOpen(true)}
+          >
             <div className="text-center">
               <svg
                 className="mx-auto mb-2 h-8 w-8"
@@ -233,7 +289,10 @@ function CustomerDashboardContent() {
             </div>
           </button>
 
-          <button className="rounded-lg bg-purple-600 p-6 text-white transition-colors hover:bg-purple-700">
+          <button
+            onClick={() => router.push("/customer/bookings")}
+            className="rounded-lg bg-purple-600 p-6 text-white transition-colors hover:bg-purple-700"
+          >
             <div className="text-center">
               <svg
                 className="mx-auto mb-2 h-8 w-8"
@@ -248,9 +307,9 @@ function CustomerDashboardContent() {
                   d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
                 />
               </svg>
-              <p className="font-medium">View History</p>
+              <p className="font-medium">My Bookings</p>
               <p className="mt-1 text-sm text-purple-100">
-                Check service records
+                Cancel, reschedule or check service records
               </p>
             </div>
           </button>
@@ -266,73 +325,57 @@ function CustomerDashboardContent() {
           </div>
           <div className="px-6 py-4">
             <div className="space-y-4">
-              <div className="flex items-center space-x-4 rounded-lg border border-gray-200 p-4">
-                <div className="flex-shrink-0">
-                  <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-blue-100">
-                    <svg
-                      className="h-6 w-6 text-blue-600"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M9 17a2 2 0 11-4 0 2 2 0 014 0zM21 17a2 2 0 11-4 0 2 2 0 014 0z"
-                      />
-                    </svg>
-                  </div>
-                </div>
-                <div className="min-w-0 flex-1">
-                  <p className="text-sm font-medium text-gray-900">
-                    2020 Honda Civic
-                  </p>
-                  <p className="text-sm text-gray-500">License: ABC-123</p>
-                  <p className="text-sm text-gray-500">
-                    Last service: 2 weeks ago
-                  </p>
-                </div>
-                <div>
-                  <span className="inline-flex items-center rounded-full bg-green-100 px-2.5 py-0.5 text-xs font-medium text-green-800">
-                    Good
-                  </span>
+              {vehicles.length === 0 ? (
+                <div className="py-8 text-center text-gray-500">
+                  <p className="text-sm">No vehicles registered yet</p>
+                  <button
+                    onClick={() => setIsAddVehicleOpen(true)}
+                    className="mt-2 text-sm font-medium text-blue-600 hover:text-blue-500"
+                  >
+                    Add a vehicle
+                  </button>
                 </div>
-              </div>
-
-              <div className="flex items-center space-x-4 rounded-lg border border-gray-200 p-4">
-                <div className="flex-shrink-0">
-                  <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-blue-100">
-                    <svg
-                      className="h-6 w-6 text-blue-600"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
+              ) : (
+                vehicles.map((vehicle) => {
+                  const lastService = stats.lastServiceByVehicle[vehicle._id];
+                  return (
+                    <div
+                      key={vehicle._id}
+                      className="flex items-center space-x-4 rounded-lg border border-gray-200 p-4"
                     >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M9 17a2 2 0 11-4 0 2 2 0 014 0zM21 17a2 2 0 11-4 0 2 2 0 014 0z"
-                      />
-                    </svg>
-                  </div>
-                </div>
-                <div className="min-w-0 flex-1">
-                  <p className="text-sm font-medium text-gray-900">
-                    2018 Toyota Camry
-                  </p>
-                  <p className="text-sm text-gray-500">License: XYZ-789</p>
-                  <p className="text-sm text-gray-500">
-                    Last service: 1 month ago
-                  </p>
-                </div>
-                <div>
-                  <span className="inline-flex items-center rounded-full bg-yellow-100 px-2.5 py-0.5 text-xs font-medium text-yellow-800">
-                    Due Soon
-                  </span>
-                </div>
-              </div>
+                      <div className="flex-shrink-0">
+                        <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-blue-100">
+                          <svg
+                            className="h-6 w-6 text-blue-600"
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
+                          >
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M9 17a2 2 0 11-4 0 2 2 0 014 0zM21 17a2 2 0 11-4 0 2 2 0 014 0z"
+                            />
+                          </svg>
+                        </div>
+                      </div>
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-medium text-gray-900">
+                          {vehicle.year} {vehicle.brand} {vehicle.model}
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          License: {vehicle.licensePlate}
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          Last service:{" "}
+                          {lastService ? dayjs(lastService).fromNow() : "Never"}
+                        </p>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
             </div>
           </div>
         </div>
@@ -346,42 +389,64 @@ function CustomerDashboardContent() {
           </div>
           <div className="px-6 py-4">
             <div className="space-y-4">
-              <div className="flex items-start space-x-4 rounded-lg border border-gray-200 p-4">
-                <div className="flex-shrink-0">
-                  <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-green-100">
-                    <svg
-                      className="h-6 w-6 text-green-600"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M8 7V3a4 4 0 118 0v4m-8 0h8a2 2 0 012 2v10a2 2 0 01-2 2H8a2 2 0 01-2-2V9a2 2 0 012-2z"
-                      />
-                    </svg>
+              {stats.upcoming.map((booking) => (
+                <Link
+                  key={booking.bookingId}
+                  href={`/customer/bookings/${booking.bookingId}`}
+                  className="flex items-start space-x-4 rounded-lg border border-gray-200 p-4 transition-colors hover:bg-gray-50"
+                >
+                  <div className="flex-shrink-0">
+                    <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-green-100">
+                      <svg
+                        className="h-6 w-6 text-green-600"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M8 7V3a4 4 0 118 0v4m-8 0h8a2 2 0 012 2v10a2 2 0 01-2 2H8a2 2 0 01-2-2V9a2 2 0 012-2z"
+                        />
+                      </svg>
+                    </div>
                   </div>
-                </div>
-                <div className="min-w-0 flex-1">
-                  <p className="text-sm font-medium text-gray-900">
-                    Oil Change Service
-                  </p>
-                  <p className="text-sm text-gray-500">Honda Civic - ABC-123</p>
-                  <p className="text-sm text-gray-500">Tomorrow at 10:00 AM</p>
-                  <p className="text-sm text-gray-500">Service Bay 3</p>
-                </div>
-                <div>
-                  <span className="inline-flex items-center rounded-full bg-blue-100 px-2.5 py-0.5 text-xs font-medium text-blue-800">
-                    Confirmed
-                  </span>
-                </div>
-              </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-gray-900">
+                      {booking.serviceName}
+                    </p>
+                    {booking.vehicle && (
+                      <p className="text-sm text-gray-500">
+                        {booking.vehicle.brand} {booking.vehicle.model} -{" "}
+                        {booking.vehicle.licensePlate}
+                      </p>
+                    )}
+                    <p className="text-sm text-gray-500">
+                      {dayjs(booking.date).format("ddd, MMM D [at] h:mm A")}
+                    </p>
+                    {booking.center && (
+                      <p className="text-sm text-gray-500">
+                        {booking.center.name}
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <StatusBadge status={booking.currentStatus} />
+                  </div>
+                </Link>
+              ))}
 
               <div className="py-8 text-center text-gray-500">
-                <p className="text-sm">No other appointments scheduled</p>
-                <button className="mt-2 text-sm font-medium text-blue-600 hover:text-blue-500">
+                <p className="text-sm">
+                  {stats.upcoming.length === 0
+                    ? "No appointments scheduled"
+                    : "No other appointments scheduled"}
+                </p>
+                <button
+                  onClick={handleBookAppointment}
+                  className="mt-2 text-sm font-medium text-blue-600 hover:text-blue-500"
+                >
                   Schedule an appointment
                 </button>
               </div>
@@ -396,3 +461,49 @@ function CustomerDashboardContent() {
     </div>
   );
 }
+
+function NextAppointmentCard({ booking }: { booking: Booking }) {
+  const countdown = useCountdown(booking.date);
+
+  return (
+    <div className="mb-8 flex flex-col gap-4 rounded-lg bg-gradient-to-r from-blue-600 to-indigo-600 p-6 text-white shadow md:flex-row md:items-center md:justify-between">
+      <div>
+        <p className="text-sm font-medium text-blue-100">Next Appointment</p>
+        <p className="mt-1 text-xl font-semibold">{booking.serviceName}</p>
+        <p className="text-sm text-blue-100">
+          {dayjs(booking.date).format("dddd, MMM D [at] h:mm A")}
+          {booking.center && ` - ${booking.center.name}`}
+        </p>
+      </div>
+
+      <div className="flex items-center gap-6">
+        {countdown && !countdown.isPast && (
+          <div className="flex gap-3 text-center">
+            {[
+              { label: "Days", value: countdown.days },
+              { label: "Hours", value: countdown.hours },
+              { label: "Min", value: countdown.minutes },
+              { label: "Sec", value: countdown.seconds },
+            ].map(({ label, value }) => (
+              <div
+                key={label}
+                className="min-w-12 rounded-md bg-white/15 px-2 py-1"
+              >
+                <p className="text-lg font-bold tabular-nums">
+                  {String(value).padStart(2, "0")}
+                </p>
+                <p className="text-xs text-blue-100">{label}</p>
+              </div>
+            ))}
+          </div>
+        )}
+        <Link
+          href={`/customer/bookings/${booking.bookingId}`}
+          className="rounded-md bg-white px-4 py-2 text-sm font-medium text-blue-700 transition-colors hover:bg-blue-50"
+        >
+          View Details
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { EmployeeOnly } from "@/components/auth/ProtectedRoute";
+import LowStockAlerts from "@/components/inventory/LowStockAlerts";
 import { useAuth } from "@/lib/store/authStore";
 import { useRouter } from "next/navigation";
 
@@ -11,6 +12,7 @@ import { useRouter } from "next/navigation";
  * - Employee-specific content
  * - Access for both employees and admins
  * - Role-based welcome message
+ * - Low-stock parts alerts
  */
 export default function EmployeeDashboard() {
   return (
@@ -147,6 +149,11 @@ function EmployeeDashboardContent() {
         </div>
       </div>
 
+      {/* Low Stock */}
+      <div className="mb-8">
+        <LowStockAlerts />
+      </div>
+
       {/* Recent Activity */}
       <div className="rounded-lg bg-white shadow">
         <div className="border-b border-gray-200 px-6 py-4">
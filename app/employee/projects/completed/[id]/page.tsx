@@ -1,59 +1,117 @@
 "use client";
 
 import React from "react";
-import { useBookingStore } from "@/lib/store/bookingStore";
+import { useBookingById } from "@/lib/hooks/useBookingById";
+import { useBookingProjects } from "@/lib/hooks/useBookingProjects";
+import { getBookedServices, parseBookingSource } from "@/lib/models/booking";
+import { getTotalPrice } from "@/lib/models/catalog";
+import ServiceReportButton from "@/components/booking/ServiceReportButton";
 import { useRouter } from "next/navigation";
 import dayjs from "dayjs";
+import StatusHistory from "@/components/booking/StatusHistory";
+import TimeEntryList from "@/components/timeLog/TimeEntryList";
+import { useTimeLog } from "@/lib/hooks/useTimeLog";
+import {
+  formatDuration,
+  getTotalDuration,
+  getTotalsByEmployee,
+} from "@/lib/models/timeLog";
+import { FaSpinner } from "react-icons/fa";
+
+const Detail = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <p>
+    <strong className="text-gray-400">{label}:</strong> {value}
+  </p>
+);
 
 export default function CompletedTaskDetailPage({
   params,
+  searchParams,
 }: {
   params: Promise<{ id: string }>;
+  searchParams: Promise<{ source?: string }>;
 }) {
-  const { bookings } = useBookingStore();
   const router = useRouter();
 
-  
   const { id } = React.use(params);
+  const { source } = React.use(searchParams);
+  const { booking: task, isLoading, error, reload } = useBookingById(
+    id,
+    parseBookingSource(source),
+  );
+  const { getProjectForBooking } = useBookingProjects();
+  const { entries } = useTimeLog({ bookingId: id });
+  const timeEntries = entries.filter((e) => e.bookingId === id);
 
-  // Find the task by bookingId
-  const task = bookings.find((b) => b.bookingId === id);
+  // Deep links have no history to go back to
+  const goBack = () => {
+    if (window.history.length > 1) router.back();
+    else router.push("/employee/projects/completed");
+  };
+
+  if (!task && isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-white">
+        <FaSpinner className="animate-spin text-3xl text-green-500" />
+      </div>
+    );
+  }
 
   if (!task) {
     return (
       <div className="min-h-screen flex items-center justify-center text-white">
         <div className="text-center">
-          <p className="text-lg font-semibold mb-2">Task not found 🛠️</p>
-          <button
-            onClick={() => router.back()}
-            className="px-4 py-2 bg-green-600 hover:bg-green-700 transition rounded-lg font-medium"
-          >
-            ← Go Back
-          </button>
+          <p className="text-lg font-semibold mb-2">
+            {error ?? "Task not found 🛠️"}
+          </p>
+          <div className="flex justify-center gap-3">
+            {error && (
+              <button
+                onClick={reload}
+                className="px-4 py-2 bg-[#2A2F36] hover:bg-[#343A42] transition rounded-lg font-medium"
+              >
+                Retry
+              </button>
+            )}
+            <button
+              onClick={goBack}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 transition rounded-lg font-medium"
+            >
+              ← Go Back
+            </button>
+          </div>
         </div>
       </div>
     );
   }
 
+  const services = getBookedServices(task);
+
   return (
     <div className="min-h-screen text-white p-4 flex flex-col items-center">
       {/* Header */}
       <div className="w-full max-w-6xl flex justify-between items-center mb-8">
         <button
-          onClick={() => router.back()}
+          onClick={goBack}
           className="px-4 py-2 bg-green-600 hover:bg-green-700 transition rounded-lg font-medium"
         >
           ← Back
         </button>
-        <span
-          className={`px-4 py-1.5 text-sm rounded-full font-semibold ${
-            task.currentStatus === "Completed"
-              ? "bg-green-700/30 text-green-400"
-              : "bg-yellow-700/30 text-yellow-400"
-          }`}
-        >
-          {task.currentStatus}
-        </span>
+        <div className="flex items-center gap-3">
+          <ServiceReportButton
+            booking={task}
+            project={getProjectForBooking(task.bookingId)}
+          />
+          <span
+            className={`px-4 py-1.5 text-sm rounded-full font-semibold ${
+              task.currentStatus === "Completed"
+                ? "bg-green-700/30 text-green-400"
+                : "bg-yellow-700/30 text-yellow-400"
+            }`}
+          >
+            {task.currentStatus}
+          </span>
+        </div>
       </div>
 
       {/* Two-column layout */}
@@ -65,22 +123,25 @@ export default function CompletedTaskDetailPage({
             {task.notes || "No specific notes provided for this service request."}
           </p>
           <div className="grid grid-cols-1 gap-3 text-sm">
-            <p>
-              <strong className="text-gray-400">Booking ID:</strong> {task.bookingId}
-            </p>
-            <p>
-              <strong className="text-gray-400">Service Name:</strong> {task.serviceName}
-            </p>
-            <p>
-              <strong className="text-gray-400">Completion Date:</strong>{" "}
-              {dayjs(task.date).format("YYYY-MM-DD")}
-            </p>
-            <p>
-              <strong className="text-gray-400">Assigned Technician:</strong> John Doe
-            </p>
-            <p>
-              <strong className="text-gray-400">Status:</strong> {task.currentStatus}
-            </p>
+            <Detail label="Booking ID" value={task.reference ?? task.bookingId} />
+            <Detail label="Service Name" value={task.serviceName} />
+            <Detail
+              label="Appointment"
+              value={`${dayjs(task.date).format("YYYY-MM-DD")} ${
+                task.endTime
+                  ? `${task.startTime} - ${task.endTime}`
+                  : dayjs(task.date).format("HH:mm")
+              }`}
+            />
+            <Detail
+              label="Service Center"
+              value={task.center ? `${task.center.name} - ${task.center.location}` : "Not specified"}
+            />
+            {services.length > 0 && (
+              <Detail label="Price" value={`$${getTotalPrice(services).toFixed(2)}`} />
+            )}
+            <Detail label="Assigned Technician" value={task.assignedTo?.name ?? "Unassigned"} />
+            <Detail label="Status" value={task.currentStatus} />
           </div>
         </div>
 
@@ -88,21 +149,62 @@ export default function CompletedTaskDetailPage({
         <div className="flex-1 bg-[#15181D] rounded-2xl p-6 border border-[#2A2F36] shadow-lg">
           <h2 className="text-xl font-bold mb-4">Vehicle & Customer Details</h2>
           <div className="grid grid-cols-1 gap-3 text-sm">
-            <p>
-              <strong className="text-gray-400">Vehicle Brand:</strong> {task.vehicle.brand}
-            </p>
-            <p>
-              <strong className="text-gray-400">Model:</strong> {task.vehicle.model}
-            </p>
-            <p>
-              <strong className="text-gray-400">Customer Name:</strong> {task.customerName}
-            </p>
-            <p>
-              <strong className="text-gray-400">Contact:</strong> 078382929
-            </p>
+            {task.vehicle ? (
+              <>
+                <Detail label="Vehicle" value={`${task.vehicle.year} ${task.vehicle.brand} ${task.vehicle.model}`} />
+                <Detail label="License Plate" value={task.vehicle.licensePlate} />
+                <Detail label="Type" value={task.vehicle.vehicleType} />
+                {task.vehicle.color && <Detail label="Color" value={task.vehicle.color} />}
+              </>
+            ) : (
+              <Detail label="Vehicle" value="Not specified" />
+            )}
+            <hr className="border-[#2A2F36]" />
+            <Detail label="Customer Name" value={task.customerName} />
+            <Detail
+              label="Contact"
+              value={
+                task.contactPhone ? (
+                  <a href={`tel:${task.contactPhone}`} className="text-green-400 hover:underline">
+                    {task.contactPhone}
+                  </a>
+                ) : (
+                  "Not provided"
+                )
+              }
+            />
           </div>
         </div>
       </div>
+
+      {/* Logged Hours */}
+      <div className="w-full max-w-6xl mt-6 bg-[#15181D] rounded-2xl p-6 border border-[#2A2F36] shadow-lg">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold">Logged Hours</h2>
+          <span className="text-lg font-semibold text-green-400">
+            {formatDuration(getTotalDuration(timeEntries))}
+          </span>
+        </div>
+        {timeEntries.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-4 text-xs">
+            {getTotalsByEmployee(timeEntries).map(({ employeeName, duration }) => (
+              <span
+                key={employeeName}
+                className="px-3 py-1 rounded-full bg-[#2A2F36] text-gray-300"
+              >
+                {employeeName}: {formatDuration(duration)}
+              </span>
+            ))}
+          </div>
+        )}
+        <TimeEntryList entries={timeEntries} />
+      </div>
+
+      {/* Status History */}
+      <div className="w-full max-w-6xl mt-6 bg-[#15181D] rounded-2xl p-6 border border-[#2A2F36] shadow-lg">
+        <h2 className="text-xl font-bold mb-4">Status History</h2>
+        <StatusHistory history={task.statusHistory} />
+      </div>
     </div>
   );
 }
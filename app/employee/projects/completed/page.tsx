@@ -1,93 +1,188 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
-import { useBookingStore } from "@/lib/store/bookingStore";
+import React, { Suspense, useEffect, useRef, useState } from "react";
+import { useAuth } from "@/lib/store/authStore";
+import AssignmentFilter from "@/components/booking/AssignmentFilter";
+import { useBookingSearch } from "@/lib/hooks/useBookingSearch";
+import type { Booking } from "@/lib/models/booking";
+import { useDebouncedCallback } from "@/lib/hooks/useDebouncedCallback";
+import {
+  BookingQuery,
+  BookingSortField,
+  parseBookingSearchParams,
+  toBookingSearchParams,
+  withAssignmentScope,
+} from "@/lib/models/bookingQuery";
 import { motion } from "framer-motion";
-import { FaCheckCircle } from "react-icons/fa";
+import { FaCheckCircle, FaSpinner } from "react-icons/fa";
 import { IoChevronBack, IoChevronForward } from "react-icons/io5";
-import { useRouter } from "next/navigation";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 
+const SORT_OPTIONS: Record<string, { label: string; sort: BookingSortField; order: "asc" | "desc" }> = {
+  "date:desc": { label: "Newest First", sort: "date", order: "desc" },
+  "date:asc": { label: "Oldest First", sort: "date", order: "asc" },
+  "serviceName:asc": { label: "Service Name", sort: "serviceName", order: "asc" },
+  "customerName:asc": { label: "Customer Name", sort: "customerName", order: "asc" },
+};
+
+// useSearchParams needs a Suspense boundary in the app router
 export default function CompletedProjectsPage() {
-  const { bookings } = useBookingStore();
+  return (
+    <Suspense fallback={null}>
+      <CompletedBookings />
+    </Suspense>
+  );
+}
+
+function CompletedBookings() {
+  const { user } = useAuth();
   const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
 
-  const [mounted, setMounted] = useState(false);
-  const [sortField, setSortField] = useState<"serviceName" | "appointDate">(
-    "appointDate"
+  // Filters live in the URL so a filtered view can be bookmarked or shared
+  const urlQuery = parseBookingSearchParams(searchParams);
+  const scope = searchParams.get("scope") === "all" ? "all" : "mine";
+  const urlSearch = urlQuery.search ?? "";
+
+  const { bookings, total, isLoading, error, reload } = useBookingSearch(
+    withAssignmentScope({ ...urlQuery, status: ["Completed"] }, scope, user?.id),
+    // "Assigned to me" means nothing until the user is known
+    scope === "all" || !!user
   );
-  const [page, setPage] = useState(1);
-  const itemsPerPage = 5;
 
-  // Fix hydration issue
-  useEffect(() => {
-    setMounted(true);
-  }, []);
+  const [searchText, setSearchText] = useState(urlSearch);
+  const lastPushedSearch = useRef(urlSearch);
 
-  // Filter completed bookings
-  const completedBookings = bookings.filter(
-    (b) => b.currentStatus === "Completed"
-  );
+  const updateQuery = (changes: Partial<BookingQuery>, nextScope = scope) => {
+    // Status and assignee are fixed by the page, not the URL
+    const params = toBookingSearchParams({
+      ...urlQuery,
+      status: undefined,
+      assignedTo: undefined,
+      ...changes,
+    });
+    if (nextScope === "all") params.set("scope", "all");
+    const qs = params.toString();
+    router.replace(qs ? `${pathname}?${qs}` : pathname, { scroll: false });
+  };
 
-  const totalPages = Math.max(1, Math.ceil(completedBookings.length / itemsPerPage));
+  const pushSearch = useDebouncedCallback((text: string) => {
+    lastPushedSearch.current = text.trim();
+    updateQuery({ search: text, page: 1 });
+  }, 400);
 
-  //  Sorting logic
-  const sortedBookings = [...completedBookings].sort((a, b) => {
-    if (sortField === "serviceName") {
-      return a.serviceName.localeCompare(b.serviceName);
-    } else {
-      return (
-        new Date(b.date).getTime() - new Date(a.date).getTime()
-      );
+  // Back/forward navigation changes the search without typing
+  useEffect(() => {
+    if (urlSearch !== lastPushedSearch.current) {
+      lastPushedSearch.current = urlSearch;
+      setSearchText(urlSearch);
     }
-  });
+  }, [urlSearch]);
 
-  // Pagination logic
-  const paginatedBookings = sortedBookings.slice(
-    (page - 1) * itemsPerPage,
-    page * itemsPerPage
-  );
+  const { page, pageSize } = urlQuery;
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+  const sortKey = `${urlQuery.sort}:${urlQuery.order}`;
+  const hasFilters = !!(urlQuery.search || urlQuery.from || urlQuery.to);
 
   // Navigate to detail page
-  const handleRowClick = (bookingId: string) => {
-    router.push(`/employee/projects/completed/${bookingId}`);
+  const handleRowClick = (booking: Booking) => {
+    router.push(
+      `/employee/projects/completed/${booking.bookingId}?source=${booking.source}`
+    );
   };
 
-  if (!mounted) return null;
-
   return (
     <div className="min-h-screen text-white p-4 flex flex-col items-center">
       <h1 className="text-3xl font-bold mb-8 w-full max-w-5xl">
         Completed Bookings
       </h1>
 
+      <div className="w-full max-w-7xl mb-4">
+        <AssignmentFilter
+          value={scope}
+          onChange={(next) => updateQuery({ page: 1 }, next === "all" ? "all" : "mine")}
+          scopes={["mine", "all"]}
+        />
+      </div>
+
       {/* Sort + Filter Controls */}
-      <div className="w-full max-w-7xl flex flex-col sm:flex-row justify-between items-center gap-4 mb-6">
+      <div className="w-full max-w-7xl flex flex-col lg:flex-row justify-between items-center gap-4 mb-6">
         <input
-          type="text"
-          placeholder="Search by service, vehicle, or date..."
-          className="w-full sm:w-2/3 bg-[#1C1F24] border border-[#2E333A] rounded-lg px-4 py-2 text-sm outline-none focus:ring-1 focus:ring-green-500"
+          type="search"
+          value={searchText}
+          onChange={(e) => {
+            setSearchText(e.target.value);
+            pushSearch(e.target.value);
+          }}
+          placeholder="Search by service, vehicle, plate or customer..."
+          className="w-full lg:w-1/2 bg-[#1C1F24] border border-[#2E333A] rounded-lg px-4 py-2 text-sm outline-none focus:ring-1 focus:ring-green-500"
         />
-        <div className="flex gap-3">
+        <div className="flex flex-wrap items-center gap-3">
           <select
             className="bg-[#1C1F24] border border-[#2E333A] rounded-lg px-4 py-2 text-sm outline-none"
-            value={sortField}
-            onChange={(e) =>
-              setSortField(e.target.value as "serviceName" | "appointDate")
-            }
+            value={sortKey}
+            onChange={(e) => {
+              const { sort, order } = SORT_OPTIONS[e.target.value];
+              updateQuery({ sort, order, page: 1 });
+            }}
           >
-            <option value="appointDate">Sort By: Completion Date</option>
-            <option value="serviceName">Sort By: Service Name</option>
-          </select>
-          <select className="bg-[#1C1F24] border border-[#2E333A] rounded-lg px-4 py-2 text-sm outline-none">
-            <option>Filter By Date</option>
-            <option>Last 7 Days</option>
-            <option>Last 30 Days</option>
+            {Object.entries(SORT_OPTIONS).map(([key, option]) => (
+              <option key={key} value={key}>
+                Sort By: {option.label}
+              </option>
+            ))}
           </select>
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            From
+            <input
+              type="date"
+              value={urlQuery.from ?? ""}
+              max={urlQuery.to}
+              onChange={(e) => updateQuery({ from: e.target.value || undefined, page: 1 })}
+              className="bg-[#1C1F24] border border-[#2E333A] rounded-lg px-3 py-2 text-sm text-white outline-none [color-scheme:dark]"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            To
+            <input
+              type="date"
+              value={urlQuery.to ?? ""}
+              min={urlQuery.from}
+              onChange={(e) => updateQuery({ to: e.target.value || undefined, page: 1 })}
+              className="bg-[#1C1F24] border border-[#2E333A] rounded-lg px-3 py-2 text-sm text-white outline-none [color-scheme:dark]"
+            />
+          </label>
+          {hasFilters && (
+            <button
+              onClick={() => {
+                lastPushedSearch.current = "";
+                setSearchText("");
+                updateQuery({ search: undefined, from: undefined, to: undefined, page: 1 });
+              }}
+              className="text-sm text-green-400 hover:text-green-300"
+            >
+              Clear filters
+            </button>
+          )}
         </div>
       </div>
 
+      {error && (
+        <div className="w-full max-w-7xl mb-4 flex items-center justify-between rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-400">
+          <span>{error}</span>
+          <button onClick={reload} className="font-medium underline">
+            Retry
+          </button>
+        </div>
+      )}
+
       {/* Table Section */}
-      <div className="w-full max-w-7xl overflow-x-auto border border-[#2E333A] rounded-xl bg-[#15181D] shadow-lg">
+      <div
+        className={`w-full max-w-7xl overflow-x-auto border border-[#2E333A] rounded-xl bg-[#15181D] shadow-lg transition-opacity ${
+          isLoading ? "opacity-60" : ""
+        }`}
+      >
         <table className="w-full border-collapse text-sm">
           <thead className="bg-[#1F2228] text-gray-300">
             <tr>
@@ -98,25 +193,35 @@ export default function CompletedProjectsPage() {
             </tr>
           </thead>
           <tbody>
-            {paginatedBookings.length === 0 ? (
+            {bookings.length === 0 ? (
               <tr>
                 <td colSpan={4} className="p-6 text-center text-gray-400">
-                  No completed bookings found.
+                  {isLoading ? (
+                    <FaSpinner className="mx-auto animate-spin" />
+                  ) : hasFilters ? (
+                    "No completed bookings match your filters."
+                  ) : (
+                    "No completed bookings found."
+                  )}
                 </td>
               </tr>
             ) : (
-              paginatedBookings.map((task, index) => (
+              bookings.map((task, index) => (
                 <motion.tr
                   key={task.bookingId}
                   initial={{ opacity: 0, y: 5 }}
                   animate={{ opacity: 1, y: 0 }}
                   transition={{ delay: index * 0.05 }}
-                  onClick={() => handleRowClick(task.bookingId)}
+                  onClick={() => handleRowClick(task)}
                   className="border-b border-[#2E333A] hover:bg-[#1C2026] cursor-pointer"
                 >
                   <td className="p-3 font-medium text-white">
-                    {task.vehicle.brand} {task.vehicle.model} –{" "}
+                    {task.vehicle?.brand ?? ""} {task.vehicle?.model ?? ""} –{" "}
                     {task.serviceName}
+                    <p className="text-xs font-normal text-gray-500">
+                      {task.customerName}
+                      {task.vehicle?.licensePlate && ` · ${task.vehicle.licensePlate}`}
+                    </p>
                   </td>
                   <td className="p-3 text-gray-400">
                     {new Date(task.date).toLocaleDateString("en-US")}
@@ -139,7 +244,7 @@ export default function CompletedProjectsPage() {
       {/* Pagination */}
       <div className="flex justify-between items-center w-full max-w-7xl mt-4 text-sm text-gray-400">
         <button
-          onClick={() => setPage((p) => Math.max(1, p - 1))}
+          onClick={() => updateQuery({ page: Math.max(1, page - 1) })}
           disabled={page === 1}
           className={`flex items-center gap-1 px-3 py-1 rounded-md ${
             page === 1
@@ -150,13 +255,13 @@ export default function CompletedProjectsPage() {
           <IoChevronBack /> Previous
         </button>
         <span>
-          Page {page} of {totalPages}
+          Page {page} of {totalPages} · {total} booking{total === 1 ? "" : "s"}
         </span>
         <button
-          onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
-          disabled={page === totalPages}
+          onClick={() => updateQuery({ page: Math.min(totalPages, page + 1) })}
+          disabled={page >= totalPages}
           className={`flex items-center gap-1 px-3 py-1 rounded-md ${
-            page === totalPages
+            page >= totalPages
               ? "text-gray-500 cursor-not-allowed"
               : "hover:text-white hover:bg-[#1C1F24]"
           }`}
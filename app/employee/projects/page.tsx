@@ -1,11 +1,26 @@
 "use client";
 
 import React, { useEffect, useState } from "react";
-import { useBookingStore } from "@/lib/store/bookingStore";
+import { Booking, BookingStatus, useBookingStore } from "@/lib/store/bookingStore";
+import { useAuth } from "@/lib/store/authStore";
 import { bookingRequestsApi } from "@/lib/api/bookingRequestsClient";
+import StatusActions from "@/components/booking/StatusActions";
+import { InvalidStatusTransitionError, isWorkable } from "@/lib/models/bookingStatus";
+import { useBookingProjects } from "@/lib/hooks/useBookingProjects";
+import { canStartProject } from "@/lib/models/quote";
+import { projectApi } from "@/lib/api/projectClient";
+import { handleApiError } from "@/lib/api/clientFactory";
+import { Project, useProjectActions } from "@/lib/store/projectsStore";
+import QuoteEditor from "@/components/project/QuoteEditor";
+import AssignmentFilter from "@/components/booking/AssignmentFilter";
+import { useBookingAssignment } from "@/lib/hooks/useBookingAssignment";
+import {
+  AssignmentScope,
+  filterByAssignment,
+  isUnassigned,
+  toAssignee,
+} from "@/lib/models/assignment";
 import {
-  FaCheck,
-  FaTimes,
   FaInfoCircle,
   FaCarSide,
   FaClock,
@@ -16,13 +31,21 @@ import { motion, AnimatePresence } from "framer-motion";
 import toast from "react-hot-toast";
 
 export default function ProjectsPage() {
-  const { bookings, updateBookingStatus, setBookings } = useBookingStore();
+  const { bookings, upsertBooking, setBookings } = useBookingStore();
+  const { user } = useAuth();
+  const { syncProject, getProjectForBooking } = useBookingProjects();
+  const { upsertProject } = useProjectActions();
+  const assignBooking = useBookingAssignment();
+  const [scope, setScope] = useState<AssignmentScope>("mine");
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [loadingId, setLoadingId] = useState<string | null>(null);
   const [filterStatus, setFilterStatus] = useState<string>("All");
   const [currentTime, setCurrentTime] = useState<string>("");
 
   const selectedRequest = bookings?.find((req) => req.bookingId === selectedId);
+  const selectedProject = selectedRequest
+    ? getProjectForBooking(selectedRequest.bookingId)
+    : undefined;
 
   // Fetch data on mount
   useEffect(() => {
@@ -51,26 +74,84 @@ export default function ProjectsPage() {
 
   // Handle status update
   const handleStatusChange = async (
-    bookingId: string,
-    newStatus: "Accepted" | "Rejected" | "Completed"
+    booking: Booking,
+    newStatus: BookingStatus,
+    reason?: string
   ) => {
+    const { bookingId } = booking;
+    const changedBy = {
+      id: user?.id,
+      name: user ? `${user.firstName} ${user.lastName}` : "Employee",
+    };
+    const startBlock = getBlockedMoves(booking)[newStatus];
+    if (startBlock) {
+      toast.error(startBlock, { position: "top-center" });
+      return;
+    }
     try {
       setLoadingId(bookingId);
       const updatedBooking = await bookingRequestsApi.updateBookingStatus({
         bookingId,
         newStatus,
+        currentStatus: booking.currentStatus,
+        source: booking.source,
+        changedBy,
+        reason,
       });
-      updateBookingStatus(bookingId, newStatus);
+      // Keep the server's copy; it can't rebuild vehicle details on its own
+      const saved = { ...updatedBooking, vehicle: updatedBooking.vehicle ?? booking.vehicle };
+      upsertBooking(saved);
       toast.success(`Booking ${newStatus} successfully`, { position: "top-center" });
-      console.log("Updated Booking:", updatedBooking);
+
+      // Accepting spawns the booking's project; later moves are mirrored onto it
+      try {
+        const hadProject = !!getProjectForBooking(bookingId);
+        const project = await syncProject(saved);
+        if (project && !hadProject) {
+          toast.success("Project created for this booking", { position: "top-center" });
+        }
+      } catch (err) {
+        console.error("Failed to update project:", err);
+        toast.error("Booking updated, but its project could not be updated", {
+          position: "top-center",
+        });
+      }
     } catch (err) {
-      toast.error("Failed to update booking status", { position: "top-center" });
+      toast.error(
+        err instanceof InvalidStatusTransitionError
+          ? err.message
+          : "Failed to update booking status",
+        { position: "top-center" }
+      );
       console.error("Error updating booking:", err);
     } finally {
       setLoadingId(null);
     }
   };
 
+  // Modification work can't start until the customer approves the quote
+  const getBlockedMoves = (
+    booking: Booking
+  ): Partial<Record<BookingStatus, string>> => {
+    const project = getProjectForBooking(booking.bookingId);
+    return project && !canStartProject(project)
+      ? { "In-Progress": "Waiting for the customer to approve the quote" }
+      : {};
+  };
+
+  const handleProjectTypeChange = async (
+    project: Project,
+    projectType: Project["projectType"]
+  ) => {
+    try {
+      const updated = await projectApi.updateProject(project._id, { projectType });
+      upsertProject(updated);
+    } catch (err) {
+      console.error("Failed to update project type:", err);
+      toast.error(handleApiError(err), { position: "top-center" });
+    }
+  };
+
   // Color badge
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -80,6 +161,12 @@ export default function ProjectsPage() {
         return "bg-emerald-500/20 text-emerald-400 border-emerald-500/30";
       case "Rejected":
         return "bg-red-500/20 text-red-400 border-red-500/30";
+      case "In-Progress":
+        return "bg-orange-500/20 text-orange-400 border-orange-500/30";
+      case "Hold on":
+        return "bg-purple-500/20 text-purple-400 border-purple-500/30";
+      case "Cancelled":
+        return "bg-slate-500/20 text-slate-400 border-slate-500/30";
       case "Completed":
         return "bg-blue-500/20 text-blue-400 border-blue-500/30";
       default:
@@ -87,17 +174,33 @@ export default function ProjectsPage() {
     }
   };
 
-  // Filter bookings by status
+  const handleClaim = async (booking: Booking) => {
+    if (!user) return;
+    try {
+      setLoadingId(booking.bookingId);
+      await assignBooking(booking, toAssignee(user));
+      toast.success("Booking assigned to you", { position: "top-center" });
+    } catch (err) {
+      console.error("Failed to claim booking:", err);
+      toast.error(handleApiError(err), { position: "top-center" });
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  // Assignment scope first, then status
+  const queue = (bookings ?? []).filter(isWorkable);
+  const scopedBookings = filterByAssignment(queue, scope, user?.id);
   const filteredBookings =
     filterStatus === "All"
-      ? bookings
-      : bookings?.filter((b) => b.currentStatus === filterStatus);
+      ? scopedBookings
+      : scopedBookings.filter((b) => b.currentStatus === filterStatus);
 
   const statusCounts = {
-    All: bookings?.length || 0,
-    Pending: bookings?.filter((b) => b.currentStatus === "Pending").length || 0,
-    Accepted: bookings?.filter((b) => b.currentStatus === "Accepted").length || 0,
-    Completed: bookings?.filter((b) => b.currentStatus === "Completed").length || 0,
+    All: scopedBookings.length,
+    Pending: scopedBookings.filter((b) => b.currentStatus === "Pending").length,
+    Accepted: scopedBookings.filter((b) => b.currentStatus === "Accepted").length,
+    Completed: scopedBookings.filter((b) => b.currentStatus === "Completed").length,
   };
 
   return (
@@ -122,6 +225,18 @@ export default function ProjectsPage() {
           </div>
         </div>
 
+        {/* Whose work to show */}
+        <div className="mb-4">
+          <AssignmentFilter
+            value={scope}
+            onChange={setScope}
+            counts={{
+              mine: filterByAssignment(queue, "mine", user?.id).length,
+              unassigned: filterByAssignment(queue, "unassigned").length,
+            }}
+          />
+        </div>
+
         {/* Stats Cards */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           {Object.entries(statusCounts).map(([status, count]) => (
@@ -211,54 +326,37 @@ export default function ProjectsPage() {
                     </span>
                   </div>
 
-                  {/* Action Buttons */}
-                  {(req.currentStatus === "Pending" ||
-                    req.currentStatus === "Accepted") && (
-                    <div className="flex gap-2 mt-4 pt-4 border-t border-slate-700/50">
-                      {req.currentStatus === "Pending" && (
-                        <>
-                          <motion.button
-                            whileHover={{ scale: 1.05 }}
-                            whileTap={{ scale: 0.95 }}
-                            disabled={loadingId === req.bookingId}
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleStatusChange(req.bookingId, "Accepted");
-                            }}
-                            className="flex-1 bg-gradient-to-r from-emerald-600 to-emerald-500 hover:from-emerald-500 hover:to-emerald-600 px-4 py-2.5 rounded-lg flex items-center justify-center gap-2 text-sm font-medium transition-all duration-200 disabled:opacity-50 shadow-lg shadow-emerald-500/20"
-                          >
-                            <FaCheck /> Accept
-                          </motion.button>
-                          <motion.button
-                            whileHover={{ scale: 1.05 }}
-                            whileTap={{ scale: 0.95 }}
-                            disabled={loadingId === req.bookingId}
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleStatusChange(req.bookingId, "Rejected");
-                            }}
-                            className="flex-1 bg-gradient-to-r from-red-600 to-red-500 hover:from-red-500 hover:to-red-600 px-4 py-2.5 rounded-lg flex items-center justify-center gap-2 text-sm font-medium transition-all duration-200 disabled:opacity-50 shadow-lg shadow-red-500/20"
-                          >
-                            <FaTimes /> Reject
-                          </motion.button>
-                        </>
-                      )}
-
-                      {req.currentStatus === "Accepted" && (
-                        <motion.button
-                          whileHover={{ scale: 1.02 }}
-                          whileTap={{ scale: 0.98 }}
-                          disabled={loadingId === req.bookingId}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleStatusChange(req.bookingId, "Completed");
-                          }}
-                          className="w-full bg-gradient-to-r from-blue-600 to-blue-500 hover:from-blue-500 hover:to-blue-600 px-4 py-2.5 rounded-lg text-sm font-medium transition-all duration-200 disabled:opacity-50 shadow-lg shadow-blue-500/20"
-                        >
-                          Mark as Completed
-                        </motion.button>
-                      )}
+                  {scope !== "mine" && req.assignedTo && (
+                    <p className="text-xs text-slate-400">
+                      Assigned to {req.assignedTo.name}
+                    </p>
+                  )}
+
+                  {/* Action Buttons; unassigned work has to be claimed first */}
+                  {isUnassigned(req) ? (
+                    <div className="mt-4 pt-4 border-t border-slate-700/50">
+                      <motion.button
+                        whileHover={{ scale: 1.02 }}
+                        whileTap={{ scale: 0.98 }}
+                        disabled={loadingId === req.bookingId}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleClaim(req);
+                        }}
+                        className="w-full bg-gradient-to-r from-cyan-600 to-blue-600 px-4 py-2.5 rounded-lg text-sm font-medium disabled:opacity-50"
+                      >
+                        {loadingId === req.bookingId ? "Claiming..." : "Claim"}
+                      </motion.button>
                     </div>
+                  ) : (
+                    <StatusActions
+                      booking={req}
+                      disabled={loadingId === req.bookingId}
+                      blocked={getBlockedMoves(req)}
+                      onStatusChange={(newStatus, reason) =>
+                        handleStatusChange(req, newStatus, reason)
+                      }
+                    />
                   )}
                 </motion.div>
               ))}
@@ -297,6 +395,11 @@ export default function ProjectsPage() {
                     <p className="text-sm font-mono">
                       {selectedRequest?.bookingId.slice(0, 8)}
                     </p>
+                    <p className="text-xs text-slate-400 mt-1">
+                      {selectedRequest.assignedTo
+                        ? `Assigned to ${selectedRequest.assignedTo.name}`
+                        : "Unassigned"}
+                    </p>
                   </div>
                 </div>
 
@@ -382,6 +485,53 @@ export default function ProjectsPage() {
                     </p>
                   </div>
                 )}
+
+                {/* Project spawned when the booking was accepted */}
+                {selectedProject && (
+                  <div className="bg-slate-700/30 rounded-xl p-5 border border-slate-600/30">
+                    <h3 className="text-sm font-semibold text-slate-400 mb-3">
+                      Project
+                    </h3>
+                    <div className="grid grid-cols-3 gap-4 text-sm">
+                      <div>
+                        <p className="text-xs text-slate-400">Status</p>
+                        <p className="font-medium text-white">{selectedProject.status}</p>
+                      </div>
+                      <div>
+                        <p className="text-xs text-slate-400">Type</p>
+                        {/* Type is fixed once a quote has gone to the customer */}
+                        {selectedProject.status === "Pending" &&
+                        (!selectedProject.quote || selectedProject.quote.status === "Draft") ? (
+                          <select
+                            value={selectedProject.projectType}
+                            onChange={(e) =>
+                              handleProjectTypeChange(
+                                selectedProject,
+                                e.target.value as Project["projectType"]
+                              )
+                            }
+                            className="bg-slate-800/50 border border-slate-600/50 rounded-lg px-2 py-1 text-white"
+                          >
+                            <option value="Service">Service</option>
+                            <option value="Modification">Modification</option>
+                          </select>
+                        ) : (
+                          <p className="font-medium text-white">{selectedProject.projectType}</p>
+                        )}
+                      </div>
+                      <div>
+                        <p className="text-xs text-slate-400">Started</p>
+                        <p className="font-medium text-white">
+                          {new Date(selectedProject.startDate).toLocaleDateString()}
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {selectedProject?.projectType === "Modification" && (
+                  <QuoteEditor key={selectedProject._id} project={selectedProject} />
+                )}
               </motion.div>
             ) : (
               <div className="flex flex-col items-center justify-center h-[calc(100vh-300px)] text-slate-400">
@@ -1,8 +1,23 @@
 "use client";
 
 import React, { useEffect, useState } from "react";
-import { useBookingStore } from "@/lib/store/bookingStore";
+import { Booking, BookingStatus, useBookingStore } from "@/lib/store/bookingStore";
+import { useAuth } from "@/lib/store/authStore";
 import { bookingRequestsApi } from "@/lib/api/bookingRequestsClient";
+import StatusActions from "@/components/booking/StatusActions";
+import ProjectNotes from "@/components/project/ProjectNotes";
+import ProgressTimeline from "@/components/project/ProgressTimeline";
+import ProgressUpdateForm from "@/components/project/ProgressUpdateForm";
+import PartReservations from "@/components/inventory/PartReservations";
+import TimeTracker from "@/components/timeLog/TimeTracker";
+import AssignmentFilter from "@/components/booking/AssignmentFilter";
+import { AssignmentScope, filterByAssignment } from "@/lib/models/assignment";
+import { useTimeLog } from "@/lib/hooks/useTimeLog";
+import { useNow } from "@/lib/hooks/useNow";
+import { formatDuration, getDailyTotals } from "@/lib/models/timeLog";
+import dayjs from "dayjs";
+import { InvalidStatusTransitionError } from "@/lib/models/bookingStatus";
+import { useBookingProjects } from "@/lib/hooks/useBookingProjects";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   FaCarSide,
@@ -12,11 +27,17 @@ import {
   FaCalendarAlt,
   FaTasks,
   FaSpinner,
+  FaCamera,
 } from "react-icons/fa";
 import toast from "react-hot-toast";
 
 export default function InProgressProjectsPage() {
-  const { bookings, setBookings, updateBookingStatus } = useBookingStore();
+  const { bookings, setBookings, upsertBooking } = useBookingStore();
+  const { user } = useAuth();
+  const { syncProject, getProjectForBooking } = useBookingProjects();
+  const { myEntries, runningEntry } = useTimeLog({ withOwnHistory: true });
+  const now = useNow(60000, !!runningEntry);
+  const [scope, setScope] = useState<AssignmentScope>("mine");
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [loadingId, setLoadingId] = useState<string | null>(null);
   const [clientDate, setClientDate] = useState<string>("");
@@ -40,27 +61,64 @@ export default function InProgressProjectsPage() {
     setClientDate(new Date().toLocaleDateString());
   }, []);
 
-  const inProgressBookings = bookings?.filter(
-    (req) => req.currentStatus === "In-Progress"
+  // On-hold jobs stay on this page so they can be resumed
+  const inProgressBookings = filterByAssignment(bookings ?? [], scope, user?.id).filter(
+    (req) => req.currentStatus === "In-Progress" || req.currentStatus === "Hold on"
   );
 
   const selectedRequest = inProgressBookings?.find(
     (req) => req.bookingId === selectedId
   );
+  const selectedProject = selectedRequest
+    ? getProjectForBooking(selectedRequest.bookingId)
+    : undefined;
 
-  const handleMarkCompleted = async (bookingId: string) => {
+  // The signed-in employee's logged time per day
+  const dailyTotals = user ? getDailyTotals(myEntries, user.id, now) : {};
+  const loggedToday = dailyTotals[dayjs(now).format("YYYY-MM-DD")] ?? 0;
+  const loggedThisWeek = Object.entries(dailyTotals)
+    .filter(([day]) => !dayjs(day).isBefore(dayjs(now).startOf("week")))
+    .reduce((sum, [, ms]) => sum + ms, 0);
+
+  const handleStatusChange = async (
+    booking: Booking,
+    newStatus: BookingStatus,
+    reason?: string
+  ) => {
+    const { bookingId } = booking;
+    const changedBy = {
+      id: user?.id,
+      name: user ? `${user.firstName} ${user.lastName}` : "Employee",
+    };
     try {
       setLoadingId(bookingId);
       const updatedBooking = await bookingRequestsApi.updateBookingStatus({
         bookingId,
-        newStatus: "Completed",
+        newStatus,
+        currentStatus: booking.currentStatus,
+        source: booking.source,
+        changedBy,
+        reason,
       });
 
-      updateBookingStatus(bookingId, "Completed");
-      toast.success("Marked as Completed successfully!");
-      console.log("Updated Booking:", updatedBooking);
+      // Keep the server's copy; it can't rebuild vehicle details on its own
+      const saved = { ...updatedBooking, vehicle: updatedBooking.vehicle ?? booking.vehicle };
+      upsertBooking(saved);
+      toast.success(`Marked as ${newStatus} successfully!`);
+
+      // Mirror the move onto the booking's project
+      try {
+        await syncProject(saved);
+      } catch (err) {
+        console.error("Failed to update project:", err);
+        toast.error("Booking updated, but its project could not be updated");
+      }
     } catch (err) {
-      toast.error("Failed to update booking status");
+      toast.error(
+        err instanceof InvalidStatusTransitionError
+          ? err.message
+          : "Failed to update booking status"
+      );
       console.error("Error updating booking:", err);
     } finally {
       setLoadingId(null);
@@ -92,6 +150,10 @@ export default function InProgressProjectsPage() {
           </div>
         </div>
 
+        <div className="mb-4">
+          <AssignmentFilter value={scope} onChange={setScope} scopes={["mine", "all"]} />
+        </div>
+
         {/* Stats Card */}
         <div className="bg-gradient-to-br from-amber-500/20 to-orange-500/20 border border-amber-500/30 rounded-2xl p-6 backdrop-blur-xl">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -111,7 +173,7 @@ export default function InProgressProjectsPage() {
                 <FaCalendarAlt className="text-2xl text-blue-400" />
               </div>
               <div>
-                <p className="text-sm text-slate-400">Today's Date</p>
+                <p className="text-sm text-slate-400">Today&apos;s Date</p>
                 <p className="text-lg font-semibold">{clientDate}</p>
               </div>
             </div>
@@ -120,8 +182,11 @@ export default function InProgressProjectsPage() {
                 <FaCheck className="text-2xl text-emerald-400" />
               </div>
               <div>
-                <p className="text-sm text-slate-400">Completion Rate</p>
-                <p className="text-lg font-semibold">Track Progress</p>
+                <p className="text-sm text-slate-400">Your Hours Today</p>
+                <p className="text-lg font-semibold">{formatDuration(loggedToday)}</p>
+                <p className="text-xs text-slate-400">
+                  This week: {formatDuration(loggedThisWeek)}
+                </p>
               </div>
             </div>
           </div>
@@ -187,7 +252,7 @@ export default function InProgressProjectsPage() {
                       <div className="flex items-center gap-2 text-slate-400 text-sm mb-2">
                         <FaCarSide className="text-amber-400" />
                         <span>
-                          {req.vehicle.brand} {req.vehicle.model}
+                          {req.vehicle?.brand ?? ""} {req.vehicle?.model ?? ""}
                         </span>
                       </div>
                       <div className="flex items-center gap-2 text-slate-400 text-xs">
@@ -206,27 +271,19 @@ export default function InProgressProjectsPage() {
                     </div>
                   </div>
 
-                  {/* Complete Button */}
-                  <motion.button
-                    whileHover={{ scale: 1.02 }}
-                    whileTap={{ scale: 0.98 }}
-                    disabled={loadingId === req.bookingId}
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleMarkCompleted(req.bookingId);
-                    }}
-                    className="w-full bg-gradient-to-r from-emerald-600 to-emerald-500 hover:from-emerald-500 hover:to-emerald-600 px-4 py-3 rounded-lg flex items-center justify-center gap-2 text-sm font-medium transition-all duration-200 disabled:opacity-50 shadow-lg shadow-emerald-500/20"
-                  >
-                    {loadingId === req.bookingId ? (
-                      <>
-                        <FaSpinner className="animate-spin" /> Processing...
-                      </>
-                    ) : (
-                      <>
-                        <FaCheck /> Mark as Completed
-                      </>
-                    )}
-                  </motion.button>
+                  {/* Next-step actions (complete, hold, resume) */}
+                  {loadingId === req.bookingId ? (
+                    <div className="flex items-center justify-center gap-2 mt-4 pt-4 border-t border-slate-700/50 text-sm text-slate-400">
+                      <FaSpinner className="animate-spin" /> Processing...
+                    </div>
+                  ) : (
+                    <StatusActions
+                      booking={req}
+                      onStatusChange={(newStatus, reason) =>
+                        handleStatusChange(req, newStatus, reason)
+                      }
+                    />
+                  )}
                 </motion.div>
               ))}
             </AnimatePresence>
@@ -261,6 +318,11 @@ export default function InProgressProjectsPage() {
                     <p className="text-sm font-mono text-slate-300">
                       {selectedRequest.bookingId.slice(0, 8)}
                     </p>
+                    {selectedRequest.assignedTo && (
+                      <p className="text-xs text-slate-400 mt-1">
+                        {selectedRequest.assignedTo.name}
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -293,6 +355,55 @@ export default function InProgressProjectsPage() {
                 </div>
 
                 {/* Vehicle Info & Notes remain same as before */}
+
+                <TimeTracker
+                  bookingId={selectedRequest.bookingId}
+                  projectId={selectedProject?._id}
+                />
+
+                {/* Customer-visible progress */}
+                {selectedProject && (
+                  <div className="rounded-xl border border-slate-600/30 bg-slate-700/30 p-5">
+                    <h3 className="mb-4 flex items-center gap-2 text-lg font-semibold text-blue-400">
+                      <FaCamera />
+                      Progress Updates
+                    </h3>
+                    <ProgressUpdateForm
+                      project={selectedProject}
+                      author={{
+                        id: user?.id,
+                        name: user ? `${user.firstName} ${user.lastName}` : "Employee",
+                      }}
+                    />
+                    <div className="mt-5 max-h-96 overflow-y-auto">
+                      <ProgressTimeline updates={selectedProject.progressUpdates} />
+                    </div>
+                  </div>
+                )}
+
+                {/* Parts held for the job */}
+                {selectedProject && (
+                  <PartReservations
+                    key={selectedProject._id}
+                    project={selectedProject}
+                    centerId={selectedRequest.center?.id}
+                    reservedBy={{
+                      id: user?.id,
+                      name: user ? `${user.firstName} ${user.lastName}` : "Employee",
+                    }}
+                  />
+                )}
+
+                {/* Project work log */}
+                {selectedProject && (
+                  <ProjectNotes
+                    project={selectedProject}
+                    author={{
+                      id: user?.id,
+                      name: user ? `${user.firstName} ${user.lastName}` : "Employee",
+                    }}
+                  />
+                )}
               </motion.div>
             ) : (
               <div className="flex flex-col items-center justify-center h-[calc(100vh-380px)] text-slate-400">
@@ -0,0 +1,413 @@
+"use client";
+
+import { EmployeeOnly } from "@/components/auth/ProtectedRoute";
+import { ApiError, handleApiError } from "@/lib/api/clientFactory";
+import { useScheduleBoard } from "@/lib/hooks/useScheduleBoard";
+import { useServiceCatalog } from "@/lib/hooks/useServiceCatalog";
+import { DATE_FORMAT, getToday } from "@/lib/models/availabilityCalendar";
+import type { BookingStatus } from "@/lib/models/booking";
+import {
+  ScheduleBlock,
+  ScheduleView,
+  UNASSIGNED_ROW,
+  fromMinutes,
+  getBayNumber,
+  getOpeningHours,
+  getScheduleBlocks,
+  getScheduleRows,
+  getUtilization,
+  snapToStep,
+  validateScheduleMove,
+} from "@/lib/models/schedule";
+import dayjs from "dayjs";
+import Link from "next/link";
+import { useRef, useState } from "react";
+import toast from "react-hot-toast";
+import { IoChevronBack, IoChevronForward } from "react-icons/io5";
+
+const STATUS_CLASSES: Partial<Record<BookingStatus, string>> = {
+  Pending: "border-yellow-400 bg-yellow-50 text-yellow-900",
+  Accepted: "border-blue-400 bg-blue-50 text-blue-900",
+  "In-Progress": "border-indigo-400 bg-indigo-50 text-indigo-900",
+  "Hold on": "border-orange-400 bg-orange-50 text-orange-900",
+  Completed: "border-green-400 bg-green-50 text-green-900",
+};
+
+interface DragState {
+  block: ScheduleBlock;
+  // Minutes between the block's start and where it was grabbed
+  grabOffset: number;
+}
+
+interface DropPreview {
+  rowId: string;
+  start: number;
+  end: number;
+  error: string | null;
+}
+
+/**
+ * Scheduling board for employees
+ *
+ * Features:
+ * - One center's day with bays or technicians as rows
+ * - Bookings as blocks sized by their services' duration
+ * - Drag a booking to another time or bay to reschedule it
+ * - Moves are checked against opening hours, other bookings and the
+ *   technician's other work before the booking service is called
+ */
+export default function ScheduleBoardPage() {
+  return (
+    <EmployeeOnly>
+      <ScheduleBoard />
+    </EmployeeOnly>
+  );
+}
+
+function ScheduleBoard() {
+  const { centers } = useServiceCatalog();
+  const [selectedCenterId, setSelectedCenterId] = useState<number | null>(null);
+  const [date, setDate] = useState(getToday);
+  const [view, setView] = useState<ScheduleView>("bays");
+  const [preview, setPreview] = useState<DropPreview | null>(null);
+  const dragState = useRef<DragState | null>(null);
+
+  const centerId = selectedCenterId ?? centers[0]?.id ?? null;
+  const center = centers.find((c) => c.id === centerId) ?? null;
+  const { bookings, isLoading, error, reload, moveBooking } = useScheduleBoard(
+    centerId,
+    date,
+  );
+
+  const hours = getOpeningHours(center);
+  const span = hours.close - hours.open;
+  const rows = getScheduleRows(center, bookings, view);
+  const blocks = getScheduleBlocks(bookings, view);
+  const utilization = getUtilization(blocks, rows, hours);
+  const hourMarks = Array.from(
+    { length: Math.floor(hours.close / 60) - Math.ceil(hours.open / 60) + 1 },
+    (_, index) => (Math.ceil(hours.open / 60) + index) * 60,
+  );
+
+  // Times that have already passed can't take a booking
+  const today = getToday();
+  const notBefore =
+    date < today
+      ? 24 * 60
+      : date === today
+        ? dayjs().hour() * 60 + dayjs().minute()
+        : undefined;
+
+  const toPercent = (minutes: number) =>
+    `${(Math.min(Math.max(minutes - hours.open, 0), span) / span) * 100}%`;
+
+  const shiftDate = (days: number) =>
+    setDate(dayjs(date).add(days, "day").format(DATE_FORMAT));
+
+  const handleDragStart = (
+    e: React.DragEvent<HTMLDivElement>,
+    block: ScheduleBlock,
+  ) => {
+    const track = e.currentTarget.parentElement!.getBoundingClientRect();
+    const blockLeft = e.currentTarget.getBoundingClientRect().left;
+    dragState.current = {
+      block,
+      grabOffset: ((e.clientX - blockLeft) / track.width) * span,
+    };
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", block.booking.bookingId);
+  };
+
+  // Where the dragged block would start if dropped at the pointer
+  const getDropStart = (e: React.DragEvent<HTMLDivElement>) => {
+    const drag = dragState.current!;
+    const track = e.currentTarget.getBoundingClientRect();
+    const pointer =
+      hours.open + ((e.clientX - track.left) / track.width) * span;
+    return snapToStep(pointer - drag.grabOffset);
+  };
+
+  const handleDragOver = (
+    e: React.DragEvent<HTMLDivElement>,
+    rowId: string,
+  ) => {
+    const drag = dragState.current;
+    if (!drag) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+
+    const start = getDropStart(e);
+    if (preview?.rowId === rowId && preview.start === start) return;
+    setPreview({
+      rowId,
+      start,
+      end: start + (drag.block.end - drag.block.start),
+      error: validateScheduleMove(
+        { bookingId: drag.block.booking.bookingId, rowId, start },
+        blocks,
+        hours,
+        view,
+        notBefore,
+      ),
+    });
+  };
+
+  const handleDragEnd = () => {
+    dragState.current = null;
+    setPreview(null);
+  };
+
+  const handleDrop = async (
+    e: React.DragEvent<HTMLDivElement>,
+    rowId: string,
+  ) => {
+    const drag = dragState.current;
+    if (!drag) return;
+    e.preventDefault();
+    const start = getDropStart(e);
+    handleDragEnd();
+
+    const { booking } = drag.block;
+    if (rowId === drag.block.rowId && start === drag.block.start) return;
+
+    const problem = validateScheduleMove(
+      { bookingId: booking.bookingId, rowId, start },
+      blocks,
+      hours,
+      view,
+      notBefore,
+    );
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    try {
+      await moveBooking(
+        booking,
+        start,
+        view === "bays" ? getBayNumber(rowId) : undefined,
+      );
+      toast.success(`Moved ${booking.serviceName} to ${fromMinutes(start)}`);
+    } catch (err) {
+      console.error("Failed to reschedule booking:", err);
+      if (err instanceof ApiError && err.status === 409) {
+        toast.error("That time was just taken. The board has been refreshed.");
+        reload();
+      } else {
+        toast.error(`Could not move the booking: ${handleApiError(err)}`);
+      }
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Scheduling Board</h1>
+          <p className="mt-2 text-gray-600">
+            The day&apos;s bookings by bay or technician. Drag a booking to
+            reschedule it.
+          </p>
+        </div>
+        <Link
+          href="/employee"
+          className="text-sm font-medium text-blue-600 hover:text-blue-500"
+        >
+          ← Employee Dashboard
+        </Link>
+      </div>
+
+      {/* Controls */}
+      <div className="mb-6 flex flex-wrap items-center gap-4 rounded-lg bg-white p-4 shadow">
+        <select
+          value={centerId ?? ""}
+          onChange={(e) => setSelectedCenterId(Number(e.target.value))}
+          className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900"
+        >
+          {centers.length === 0 && <option value="">No centers</option>}
+          {centers.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name}
+            </option>
+          ))}
+        </select>
+
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => shiftDate(-1)}
+            aria-label="Previous day"
+            className="rounded-md p-2 text-gray-700 hover:bg-gray-100"
+          >
+            <IoChevronBack />
+          </button>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+            className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900"
+          />
+          <button
+            onClick={() => shiftDate(1)}
+            aria-label="Next day"
+            className="rounded-md p-2 text-gray-700 hover:bg-gray-100"
+          >
+            <IoChevronForward />
+          </button>
+          {date !== today && (
+            <button
+              onClick={() => setDate(today)}
+              className="ml-1 text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Today
+            </button>
+          )}
+        </div>
+
+        <div className="flex overflow-hidden rounded-md border border-gray-300 text-sm">
+          {(["bays", "technicians"] as ScheduleView[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-3 py-2 capitalize ${
+                view === option
+                  ? "bg-blue-600 text-white"
+                  : "bg-white text-gray-700 hover:bg-gray-50"
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+
+        <div className="ml-auto text-sm text-gray-600">
+          {blocks.length} booking{blocks.length === 1 ? "" : "s"} ·{" "}
+          {Math.round(utilization * 100)}% of{" "}
+          {view === "bays" ? "bay" : "technician"} time booked
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 flex items-center justify-between rounded-md border border-red-200 bg-red-50 px-4 py-3 text-red-700">
+          <span>{error}</span>
+          <button onClick={reload} className="font-medium underline">
+            Retry
+          </button>
+        </div>
+      )}
+
+      {/* Board */}
+      <div
+        className={`overflow-x-auto rounded-lg bg-white shadow transition-opacity ${
+          isLoading ? "opacity-60" : ""
+        }`}
+      >
+        <div className="min-w-[900px]">
+          <div className="flex border-b border-gray-200 bg-gray-50">
+            <div className="w-40 shrink-0 px-4 py-2 text-xs font-medium tracking-wider text-gray-500 uppercase">
+              {view === "bays" ? "Bay" : "Technician"}
+            </div>
+            <div className="relative h-8 flex-1">
+              {hourMarks.map((mark) => (
+                <span
+                  key={mark}
+                  style={{ left: toPercent(mark) }}
+                  className="absolute top-2 -translate-x-1/2 text-xs text-gray-500"
+                >
+                  {fromMinutes(mark)}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {rows.map((row) => {
+            const rowBlocks = blocks.filter((block) => block.rowId === row.id);
+            return (
+              <div
+                key={row.id}
+                className="flex border-b border-gray-100 last:border-b-0"
+              >
+                <div
+                  className={`w-40 shrink-0 px-4 py-3 text-sm font-medium ${
+                    row.id === UNASSIGNED_ROW
+                      ? "text-gray-500"
+                      : "text-gray-900"
+                  }`}
+                >
+                  {row.label}
+                </div>
+                <div
+                  onDragOver={(e) => handleDragOver(e, row.id)}
+                  onDrop={(e) => handleDrop(e, row.id)}
+                  className="relative h-20 flex-1"
+                >
+                  {hourMarks.map((mark) => (
+                    <div
+                      key={mark}
+                      style={{ left: toPercent(mark) }}
+                      className="absolute inset-y-0 border-l border-gray-100"
+                    />
+                  ))}
+
+                  {preview?.rowId === row.id && (
+                    <div
+                      style={{
+                        left: toPercent(preview.start),
+                        width: `calc(${toPercent(preview.end)} - ${toPercent(preview.start)})`,
+                      }}
+                      className={`pointer-events-none absolute inset-y-1 z-20 rounded-md border-2 border-dashed ${
+                        preview.error
+                          ? "border-red-400 bg-red-50/60"
+                          : "border-green-500 bg-green-50/60"
+                      }`}
+                      title={preview.error ?? undefined}
+                    />
+                  )}
+
+                  {rowBlocks.map((block) => {
+                    const { booking } = block;
+                    const locked =
+                      booking.currentStatus === "In-Progress" ||
+                      booking.currentStatus === "Completed";
+                    return (
+                      <div
+                        key={booking.bookingId}
+                        draggable={!locked}
+                        onDragStart={(e) => handleDragStart(e, block)}
+                        onDragEnd={handleDragEnd}
+                        style={{
+                          left: toPercent(block.start),
+                          width: `calc(${toPercent(block.end)} - ${toPercent(block.start)})`,
+                        }}
+                        className={`absolute inset-y-1 z-10 overflow-hidden rounded-md border-l-4 px-2 py-1 text-xs shadow-sm ${
+                          STATUS_CLASSES[booking.currentStatus] ??
+                          "border-gray-400 bg-gray-50 text-gray-900"
+                        } ${locked ? "cursor-default" : "cursor-grab active:cursor-grabbing"}`}
+                        title={`${booking.serviceName} · ${booking.customerName} · ${booking.currentStatus}`}
+                      >
+                        <p className="font-semibold">
+                          {fromMinutes(block.start)}-{fromMinutes(block.end)}
+                        </p>
+                        <p className="truncate">{booking.serviceName}</p>
+                        <p className="truncate opacity-75">
+                          {booking.customerName}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {!isLoading && blocks.length === 0 && centerId && (
+        <p className="mt-4 text-center text-sm text-gray-500">
+          No bookings at {center?.name ?? "this center"} on{" "}
+          {dayjs(date).format("MMM D, YYYY")}.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
+import SessionExpiryWarning from "@/components/auth/SessionExpiryWarning";
 import Navigation from "@/components/layout/Navigation";
+import RealtimeBookingSync from "@/components/realtime/RealtimeBookingSync";
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import { Toaster } from "react-hot-toast";
@@ -47,6 +49,9 @@ export default function RootLayout({
 
         
         <main className="h-dvh">{children}</main>
+
+        <SessionExpiryWarning />
+        <RealtimeBookingSync />
       </body>
     </html>
   );
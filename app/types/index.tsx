@@ -2,6 +2,11 @@ export interface Center {
   id: number;
   name: string;
   location: string;
+  // "HH:MM", 24-hour
+  opening_time?: string;
+  closing_time?: string;
+  // Vehicles that can be worked on at the same time
+  bay_count?: number;
 }
 
 export interface Service {
@@ -10,43 +15,100 @@ export interface Service {
   category: string;
   duration_minutes: number;
   price: number;
+  // Centers offering the service; missing means every center
+  center_ids?: number[];
+  // Price at particular centers, keyed by center id; others use `price`
+  center_prices?: Record<string, number>;
 }
 
+// Create and update bodies for the admin catalogue screens
+export type CenterData = Omit<Center, "id">;
+export type ServiceData = Omit<Service, "id">;
+
 export interface TimeSlot {
   start_time: string;
   end_time: string;
   gap_remaining_after: number;
 }
 
+// Free slots on one day; earliest_start is null when the day is full
+export interface DayAvailability {
+  date: string;
+  num_slots: number;
+  earliest_start: string | null;
+}
+
 export interface AvailabilityResponse {
   available: boolean;
   slots: TimeSlot[];
   message?: string;
-  suggested_dates?: Array<{
-    date: string;
-    num_slots: number;
-    earliest_start: string | null;
-  }>;
+  suggested_dates?: DayAvailability[];
+}
+
+// Slot counts for each day from `from` to `to` inclusive
+export interface AvailabilityCalendarResponse {
+  from: string;
+  to: string;
+  days: DayAvailability[];
 }
 
 export interface BookingData {
   center_id: number;
+  // First of service_ids, for clients that predate multi-service bookings
   service_id: number;
+  // Carried out back to back, in this order
+  service_ids: number[];
+  customer_id: number;
+  vehicle_id: string;
   date: string;
   start_time: string;
   end_time: string;
   customer_name: string;
+  contact_phone?: string;
+  notes?: string;
+  // Hold taken when the slot was picked; the booking consumes it
+  hold_id?: string;
 }
 
-export interface Booking extends BookingData {
+// Keeps a slot away from other customers while one checks out
+export interface SlotHoldRequest {
+  center_id: number;
+  service_ids: number[];
+  customer_id: number;
+  date: string;
+  start_time: string;
+  end_time: string;
+}
+
+export interface SlotHoldResponse extends SlotHoldRequest {
+  id: string;
+  // ISO date-time after which the slot is released automatically
+  expires_at: string;
+}
+
+export interface BookingStatusChangeResponse {
+  from_status: string | null;
+  to_status: string;
+  changed_by: string;
+  changed_by_id?: number;
+  changed_at: string;
+  reason?: string;
+}
+
+// Booking as returned by the booking service; convert with fromBookingServicePayload
+export interface BookingResponse extends BookingData {
   id: number;
+  reference: string;
   status: string;
   created_at: string;
   center: Center;
   service: Service;
-}
-
-export interface Vehicle {
-  id: number;
-  type?: string;
+  // Every booked service, priced as charged at the center
+  services?: Service[];
+  // 1-based service bay at the center, null until one is allocated
+  bay?: number | null;
+  status_history?: BookingStatusChangeResponse[];
+  // Employee id, null while unassigned
+  assigned_to?: number | null;
+  assigned_to_name?: string | null;
 }
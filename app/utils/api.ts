@@ -1,28 +1,105 @@
-import axios from 'axios';
-import { AvailabilityResponse, BookingData, Booking, Center, Service, Vehicle } from '../types';
+import { API_BASE_URLS, createApiClient } from '@/lib/api/clientFactory';
+import { AvailabilityCalendarResponse, AvailabilityResponse, BookingData, BookingResponse, Center, CenterData, Service, ServiceData, SlotHoldRequest, SlotHoldResponse } from '../types';
 
-const API_BASE_URL = 'http://127.0.0.1:8000/api';
-
-const api = axios.create({
-  baseURL: API_BASE_URL,
-});
+const api = createApiClient({ baseURL: API_BASE_URLS.booking });
 
 export const bookingAPI = {
-  // Check availability
-  checkAvailability: async (centerId: number, date: string, serviceId: number): Promise<AvailabilityResponse> => {
-    const response = await api.get(`/availability/${centerId}/${date}/${serviceId}/`);
+  // Check availability; with several services the slots cover their combined duration
+  checkAvailability: async (centerId: number, date: string, serviceIds: number | number[]): Promise<AvailabilityResponse> => {
+    const [first, ...others] = Array.isArray(serviceIds) ? serviceIds : [serviceIds];
+    const response = await api.get(`/availability/${centerId}/${date}/${first}/`, {
+      params: others.length ? { service_ids: [first, ...others].join(',') } : undefined,
+    });
+    return response.data;
+  },
+
+  // Slot counts per day over a date range (YYYY-MM-DD, inclusive)
+  getAvailabilityCalendar: async (
+    centerId: number,
+    from: string,
+    to: string,
+    serviceIds: number[]
+  ): Promise<AvailabilityCalendarResponse> => {
+    const response = await api.get(`/availability/${centerId}/calendar/`, {
+      params: { from, to, service_ids: serviceIds.join(',') },
+    });
+    return response.data;
+  },
+
+  // Reserve a slot for a few minutes; rejects with 409 if it is already taken
+  holdSlot: async (hold: SlotHoldRequest): Promise<SlotHoldResponse> => {
+    const response = await api.post('/holds/', hold);
     return response.data;
   },
 
+  releaseHold: async (holdId: string): Promise<void> => {
+    await api.delete(`/holds/${holdId}/`);
+  },
+
   // Create booking
-  createBooking: async (bookingData: BookingData): Promise<Booking> => {
+  createBooking: async (bookingData: BookingData): Promise<BookingResponse> => {
     const response = await api.post('/bookings/', bookingData);
     return response.data;
   },
 
-  // Get all bookings (optional)
-  getBookings: async (): Promise<Booking[]> => {
-    const response = await api.get('/bookings/');
+  // Get bookings, optionally narrowed by customer, center, day, status (comma separated) or date range
+  getBookings: async (
+    params: {
+      customer_id?: number;
+      center_id?: number;
+      date?: string;
+      status?: string;
+      date_from?: string;
+      date_to?: string;
+    } = {}
+  ): Promise<BookingResponse[]> => {
+    const response = await api.get('/bookings/', { params });
+    return response.data;
+  },
+
+  // Get a single booking by id
+  getBooking: async (bookingId: string): Promise<BookingResponse> => {
+    const response = await api.get(`/bookings/${bookingId}/`);
+    return response.data;
+  },
+
+  // Customer cancels their own booking
+  cancelBooking: async (bookingId: string, reason?: string): Promise<BookingResponse> => {
+    const response = await api.patch(`/bookings/${bookingId}/cancel/`, { reason });
+    return response.data;
+  },
+
+  // Move a booking to a new date and slot, and optionally another bay
+  rescheduleBooking: async (
+    bookingId: string,
+    slot: { date: string; start_time: string; end_time: string; bay?: number | null }
+  ): Promise<BookingResponse> => {
+    const response = await api.patch(`/bookings/${bookingId}/reschedule/`, slot);
+    return response.data;
+  },
+
+  // Update a booking's status (employee actions on customer bookings)
+  updateBookingStatus: async (
+    bookingId: string,
+    status: string,
+    audit: { reason?: string; changedBy?: string } = {}
+  ): Promise<BookingResponse> => {
+    const response = await api.patch(`/bookings/${bookingId}/status/`, {
+      status,
+      reason: audit.reason,
+      changed_by: audit.changedBy,
+    });
+    return response.data;
+  },
+
+  // Pass null to unassign
+  assignBooking: async (
+    bookingId: string,
+    employeeId: number | string | null
+  ): Promise<BookingResponse> => {
+    const response = await api.patch(`/bookings/${bookingId}/assign/`, {
+      assigned_to: employeeId,
+    });
     return response.data;
   },
 
@@ -36,12 +113,32 @@ export const bookingAPI = {
     return response.data;
   },
 
-  getVehicles: async (userId: number): Promise<Vehicle[]> => {
-    // const response = await api.get(`/vehicles/?user_id=${userId}`);
-    // return response.data;
-    return [
-      { id: 1, type: "Car A" },
-      { id: 2, type: "Bike B" },
-    ];
+  // Admin only
+  createCenter: async (data: CenterData): Promise<Center> => {
+    const response = await api.post('/centers/', data);
+    return response.data;
+  },
+
+  updateCenter: async (centerId: number, data: Partial<CenterData>): Promise<Center> => {
+    const response = await api.patch(`/centers/${centerId}/`, data);
+    return response.data;
+  },
+
+  deleteCenter: async (centerId: number): Promise<void> => {
+    await api.delete(`/centers/${centerId}/`);
+  },
+
+  createService: async (data: ServiceData): Promise<Service> => {
+    const response = await api.post('/services/', data);
+    return response.data;
+  },
+
+  updateService: async (serviceId: number, data: Partial<ServiceData>): Promise<Service> => {
+    const response = await api.patch(`/services/${serviceId}/`, data);
+    return response.data;
+  },
+
+  deleteService: async (serviceId: number): Promise<void> => {
+    await api.delete(`/services/${serviceId}/`);
   },
 };
\ No newline at end of file
@@ -76,7 +76,16 @@ export default function LoginForm() {
       const userProfile = await userApi.getProfile();
 
       // Store authentication state
-      login(token, userProfile);
+      login(token, userProfile, authResponse.refreshToken);
+
+      // Return to the page the user was on when their session expired
+      const redirectParam = new URLSearchParams(window.location.search).get(
+        "redirect",
+      );
+      if (redirectParam?.startsWith("/") && !redirectParam.startsWith("//")) {
+        router.push(redirectParam);
+        return;
+      }
 
       // Redirect based on user role
       const roleRedirects = {
@@ -162,6 +162,15 @@ export function EmployeeOnly({ children }: { children: React.ReactNode }) {
   );
 }
 
+/**
+ * Component wrapper for customer-only content
+ */
+export function CustomerOnly({ children }: { children: React.ReactNode }) {
+  return (
+    <ProtectedRoute requiredRole={["ROLE_CUSTOMER"]}>{children}</ProtectedRoute>
+  );
+}
+
 /**
  * Component wrapper for authenticated users only
  */
@@ -0,0 +1,105 @@
+"use client";
+
+import { expireSession, refreshSession } from "@/lib/api/clientFactory";
+import { useAuth } from "@/lib/store/authStore";
+import { getTimeUntilExpiry } from "@/lib/utils/jwt";
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+
+// Show the warning this long before the access token expires
+const WARNING_THRESHOLD_MS = 2 * 60 * 1000;
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+/**
+ * Session expiry banner
+ *
+ * Features:
+ * - Reads the access token's exp claim
+ * - Warns shortly before the session ends with a live countdown
+ * - Lets the user extend the session via the refresh token
+ * - Ends the session once the token has expired
+ */
+export default function SessionExpiryWarning() {
+  const { token, isAuthenticated } = useAuth();
+  const [remaining, setRemaining] = useState<number | null>(null);
+  const [isExtending, setIsExtending] = useState(false);
+
+  useEffect(() => {
+    if (!isAuthenticated || !token) {
+      setRemaining(null);
+      return;
+    }
+
+    const tick = () => setRemaining(getTimeUntilExpiry(token));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [token, isAuthenticated]);
+
+  const isExpired = remaining !== null && remaining <= 0;
+
+  // Try a silent refresh once the token runs out, otherwise sign out
+  useEffect(() => {
+    if (!isExpired) return;
+
+    refreshSession().catch(() => {
+      toast.error("Your session has expired. Please sign in again.");
+      expireSession();
+    });
+  }, [isExpired]);
+
+  const handleExtend = async () => {
+    setIsExtending(true);
+    try {
+      await refreshSession();
+      toast.success("Session extended");
+    } catch {
+      toast.error("Could not extend your session. Please sign in again.");
+      expireSession();
+    } finally {
+      setIsExtending(false);
+    }
+  };
+
+  if (remaining === null || isExpired || remaining > WARNING_THRESHOLD_MS) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-x-0 bottom-4 z-50 flex justify-center px-4">
+      <div
+        role="alert"
+        className="flex w-full max-w-xl items-center justify-between gap-4 rounded-lg border border-yellow-200 bg-yellow-50 px-4 py-3 shadow-lg"
+      >
+        <p className="text-sm text-yellow-800">
+          Your session expires in{" "}
+          <span className="font-mono font-semibold">
+            {formatRemaining(remaining)}
+          </span>
+          . Any unsaved changes will be lost.
+        </p>
+        <div className="flex shrink-0 gap-2">
+          <button
+            onClick={() => expireSession()}
+            className="rounded-md px-3 py-1.5 text-sm font-medium text-yellow-800 hover:bg-yellow-100"
+          >
+            Sign out
+          </button>
+          <button
+            onClick={handleExtend}
+            disabled={isExtending}
+            className="rounded-md bg-blue-600 px-3 py-1.5 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-blue-300"
+          >
+            {isExtending ? "Extending..." : "Stay signed in"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
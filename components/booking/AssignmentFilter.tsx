@@ -0,0 +1,43 @@
+import {
+  ASSIGNMENT_SCOPE_LABELS,
+  AssignmentScope,
+} from "@/lib/models/assignment";
+
+interface AssignmentFilterProps {
+  value: AssignmentScope;
+  onChange: (scope: AssignmentScope) => void;
+  scopes?: AssignmentScope[];
+  // Shown next to each label when provided
+  counts?: Partial<Record<AssignmentScope, number>>;
+}
+
+/**
+ * "Assigned to me / Unassigned / All" switch for the employee work pages
+ */
+export default function AssignmentFilter({
+  value,
+  onChange,
+  scopes = ["mine", "unassigned", "all"],
+  counts = {},
+}: AssignmentFilterProps) {
+  return (
+    <div className="inline-flex rounded-xl border border-slate-700/50 bg-slate-800/50 p-1">
+      {scopes.map((scope) => (
+        <button
+          key={scope}
+          onClick={() => onChange(scope)}
+          className={`rounded-lg px-4 py-1.5 text-sm font-medium transition-colors ${
+            value === scope
+              ? "bg-cyan-600 text-white"
+              : "text-slate-400 hover:text-white"
+          }`}
+        >
+          {ASSIGNMENT_SCOPE_LABELS[scope]}
+          {counts[scope] !== undefined && (
+            <span className="ml-2 text-xs opacity-75">{counts[scope]}</span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { inventoryApi } from "@/lib/api/inventoryClient";
+import type { PartReservation } from "@/lib/models/inventory";
+import { buildInvoice } from "@/lib/models/invoice";
+import { downloadPdf } from "@/lib/pdf/pdfDocument";
+import {
+  getServiceReportFileName,
+  renderServiceReport,
+} from "@/lib/pdf/serviceReportPdf";
+import type { Booking } from "@/lib/models/booking";
+import type { Project } from "@/lib/store/projectsStore";
+import toast from "react-hot-toast";
+import { FaFilePdf } from "react-icons/fa";
+
+interface ServiceReportButtonProps {
+  booking: Booking;
+  project?: Project;
+  // Employee screens are dark, customer screens light
+  variant?: "dark" | "light";
+  label?: string;
+}
+
+const VARIANTS = {
+  dark: "bg-green-600 text-white hover:bg-green-700",
+  light: "border border-gray-300 text-gray-700 hover:bg-gray-50",
+};
+
+// The report still downloads without parts when inventory can't be reached
+const loadConsumedParts = async (
+  project?: Project,
+): Promise<PartReservation[]> => {
+  if (!project) return [];
+  try {
+    return await inventoryApi.getReservations({
+      projectId: project._id,
+      status: "Consumed",
+    });
+  } catch (err) {
+    console.error("Failed to load consumed parts:", err);
+    toast.error("Parts could not be loaded and are left off this report");
+    return [];
+  }
+};
+
+/**
+ * Generates the service report and invoice PDF in the browser and
+ * downloads it. Only completed bookings have one.
+ */
+export default function ServiceReportButton({
+  booking,
+  project,
+  variant = "dark",
+  label = "Report & Invoice",
+}: ServiceReportButtonProps) {
+  if (booking.currentStatus !== "Completed") return null;
+
+  const handleDownload = async () => {
+    try {
+      const invoice = buildInvoice(
+        booking,
+        project,
+        await loadConsumedParts(project),
+      );
+      downloadPdf(
+        renderServiceReport(invoice),
+        getServiceReportFileName(invoice),
+      );
+    } catch (err) {
+      console.error("Failed to generate service report:", err);
+      toast.error("Could not generate the service report");
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleDownload}
+      className={`flex items-center gap-2 rounded-md px-3 py-2 text-sm font-medium transition-colors ${VARIANTS[variant]}`}
+    >
+      <FaFilePdf />
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { Booking, BookingStatus } from "@/lib/store/bookingStore";
+import {
+  getAllowedTransitions,
+  getTransitionLabel,
+  REASON_REQUIRED,
+} from "@/lib/models/bookingStatus";
+import { motion } from "framer-motion";
+import { FaCheck, FaPause, FaPlay, FaTimes } from "react-icons/fa";
+
+interface StatusActionsProps {
+  booking: Booking;
+  onStatusChange: (newStatus: BookingStatus, reason?: string) => void;
+  disabled?: boolean;
+  // Moves that are allowed by status but blocked for now, with the reason why
+  blocked?: Partial<Record<BookingStatus, string>>;
+}
+
+const ACTION_STYLES: Partial<Record<BookingStatus, string>> = {
+  Accepted:
+    "from-emerald-600 to-emerald-500 hover:from-emerald-500 hover:to-emerald-600 shadow-emerald-500/20",
+  Rejected:
+    "from-red-600 to-red-500 hover:from-red-500 hover:to-red-600 shadow-red-500/20",
+  "In-Progress":
+    "from-orange-600 to-orange-500 hover:from-orange-500 hover:to-orange-600 shadow-orange-500/20",
+  "Hold on":
+    "from-purple-600 to-purple-500 hover:from-purple-500 hover:to-purple-600 shadow-purple-500/20",
+  Completed:
+    "from-blue-600 to-blue-500 hover:from-blue-500 hover:to-blue-600 shadow-blue-500/20",
+};
+
+const ACTION_ICONS: Partial<Record<BookingStatus, React.ReactNode>> = {
+  Accepted: <FaCheck />,
+  Rejected: <FaTimes />,
+  "In-Progress": <FaPlay />,
+  "Hold on": <FaPause />,
+  Completed: <FaCheck />,
+};
+
+/**
+ * Renders one button per status the booking may move to next.
+ * Terminal bookings (Rejected, Completed) render nothing.
+ */
+export default function StatusActions({
+  booking,
+  onStatusChange,
+  disabled = false,
+  blocked = {},
+}: StatusActionsProps) {
+  const transitions = getAllowedTransitions(booking.currentStatus);
+  if (transitions.length === 0) return null;
+
+  const handleClick = (e: React.MouseEvent, to: BookingStatus) => {
+    e.stopPropagation();
+
+    if (!REASON_REQUIRED.includes(to)) {
+      onStatusChange(to);
+      return;
+    }
+
+    const reason = window.prompt(
+      `Reason for "${getTransitionLabel(booking.currentStatus, to)}":`,
+    );
+    if (reason === null) return;
+    if (!reason.trim()) {
+      window.alert("A reason is required for this action.");
+      return;
+    }
+    onStatusChange(to, reason.trim());
+  };
+
+  return (
+    <div className="mt-4 flex gap-2 border-t border-slate-700/50 pt-4">
+      {transitions.map((to) => (
+        <motion.button
+          key={to}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          disabled={disabled || !!blocked[to]}
+          title={blocked[to]}
+          onClick={(e) => handleClick(e, to)}
+          className={`flex-1 bg-gradient-to-r ${ACTION_STYLES[to] ?? ""} flex items-center justify-center gap-2 rounded-lg px-4 py-2.5 text-sm font-medium shadow-lg transition-all duration-200 disabled:opacity-50`}
+        >
+          {ACTION_ICONS[to]} {getTransitionLabel(booking.currentStatus, to)}
+        </motion.button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { BookingStatus } from "@/lib/models/booking";
+
+const STATUS_BADGES: Record<BookingStatus, string> = {
+  Pending: "bg-yellow-100 text-yellow-800",
+  Accepted: "bg-blue-100 text-blue-800",
+  Rejected: "bg-red-100 text-red-800",
+  "In-Progress": "bg-orange-100 text-orange-800",
+  "Hold on": "bg-purple-100 text-purple-800",
+  Completed: "bg-green-100 text-green-800",
+  Cancelled: "bg-gray-100 text-gray-700",
+  Unknown: "bg-gray-100 text-gray-500",
+};
+
+/**
+ * Light-theme pill for a booking status, used on customer screens
+ */
+export default function StatusBadge({ status }: { status: BookingStatus }) {
+  return (
+    <span
+      className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${STATUS_BADGES[status]}`}
+    >
+      {status}
+    </span>
+  );
+}
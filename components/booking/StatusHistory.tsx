@@ -0,0 +1,65 @@
+import { BookingStatusChange } from "@/lib/models/bookingStatus";
+import dayjs from "dayjs";
+
+interface StatusHistoryProps {
+  history: BookingStatusChange[];
+  // Employee screens are dark, customer screens light
+  variant?: "dark" | "light";
+}
+
+const VARIANTS = {
+  dark: {
+    line: "border-[#2A2F36]",
+    dot: "border-[#15181D]",
+    meta: "text-gray-400",
+    reason: "text-gray-300",
+  },
+  light: {
+    line: "border-gray-200",
+    dot: "border-white",
+    meta: "text-gray-500",
+    reason: "text-gray-700",
+  },
+};
+
+/**
+ * Vertical timeline of a booking's status changes, newest first
+ */
+export default function StatusHistory({
+  history,
+  variant = "dark",
+}: StatusHistoryProps) {
+  const styles = VARIANTS[variant];
+
+  if (history.length === 0) {
+    return (
+      <p className={`text-sm ${styles.meta}`}>
+        No status changes recorded yet.
+      </p>
+    );
+  }
+
+  return (
+    <ol className={`relative border-l ${styles.line} ml-2 space-y-5`}>
+      {[...history].reverse().map((change, index) => (
+        <li key={`${change.changedAt}-${index}`} className="ml-4">
+          <span
+            className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border ${styles.dot} bg-green-500`}
+          />
+          <p className="text-sm font-semibold">
+            {change.from ? `${change.from} → ${change.to}` : change.to}
+          </p>
+          <p className={`text-xs ${styles.meta}`}>
+            {dayjs(change.changedAt).format("YYYY-MM-DD HH:mm")} by{" "}
+            {change.changedBy.name}
+          </p>
+          {change.reason && (
+            <p className={`mt-1 text-sm ${styles.reason}`}>
+              Reason: {change.reason}
+            </p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
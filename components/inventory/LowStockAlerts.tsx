@@ -0,0 +1,76 @@
+"use client";
+
+import { usePartsInventory } from "@/lib/hooks/usePartsInventory";
+import { useServiceCatalog } from "@/lib/hooks/useServiceCatalog";
+
+const MAX_ALERTS = 6;
+
+/**
+ * Employee dashboard card listing parts at or below their reorder level
+ */
+export default function LowStockAlerts() {
+  const { lowStock, isLoading, error } = usePartsInventory();
+  const { centers } = useServiceCatalog();
+
+  const centerName = (centerId: number) =>
+    centers.find((c) => c.id === centerId)?.name ?? `Center #${centerId}`;
+
+  return (
+    <div className="rounded-lg bg-white shadow">
+      <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+        <h2 className="text-xl font-semibold text-gray-900">Low Stock</h2>
+        {lowStock.length > 0 && (
+          <span className="rounded-full bg-red-100 px-2.5 py-0.5 text-xs font-medium text-red-800">
+            {lowStock.length} part{lowStock.length === 1 ? "" : "s"}
+          </span>
+        )}
+      </div>
+      <div className="px-6 py-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <div className="h-6 w-6 animate-spin rounded-full border-b-2 border-blue-600"></div>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : lowStock.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            All parts are above their reorder level.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {lowStock.slice(0, MAX_ALERTS).map(({ part, stock, available }) => (
+              <li
+                key={`${part._id}-${stock.centerId}`}
+                className="flex items-center justify-between py-2"
+              >
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium text-gray-900">
+                    {part.name}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {part.sku} · {centerName(stock.centerId)}
+                  </p>
+                </div>
+                <p
+                  className={`text-sm font-semibold ${
+                    available === 0 ? "text-red-600" : "text-yellow-600"
+                  }`}
+                >
+                  {available} left
+                  <span className="ml-1 text-xs font-normal text-gray-500">
+                    (reorder at {part.reorderLevel})
+                  </span>
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+        {lowStock.length > MAX_ALERTS && (
+          <p className="mt-2 text-xs text-gray-500">
+            And {lowStock.length - MAX_ALERTS} more.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import { handleApiError } from "@/lib/api/clientFactory";
+import { usePartsInventory } from "@/lib/hooks/usePartsInventory";
+import { useServiceCatalog } from "@/lib/hooks/useServiceCatalog";
+import {
+  findStockLevel,
+  getActiveReservations,
+  getAvailable,
+  InsufficientStockError,
+  isValidQuantity,
+} from "@/lib/models/inventory";
+import { isProjectClosed } from "@/lib/models/project";
+import type { Project } from "@/lib/store/projectsStore";
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { FaBoxOpen } from "react-icons/fa";
+
+interface PartReservationsProps {
+  project: Project;
+  // Center the job is done at; the employee picks one when unknown
+  centerId?: number;
+  reservedBy: PartReservationRequest["reservedBy"];
+}
+
+/**
+ * Parts held for a project: reserve from a center's stock, then mark
+ * them used or release them back
+ */
+export default function PartReservations({
+  project,
+  centerId: bookingCenterId,
+  reservedBy,
+}: PartReservationsProps) {
+  const { parts, stockLevels, reservations, reservePart, settleReservation } =
+    usePartsInventory({ projectId: project._id });
+  const { centers } = useServiceCatalog();
+
+  const [centerId, setCenterId] = useState<number | undefined>(bookingCenterId);
+  const [partId, setPartId] = useState("");
+  const [quantity, setQuantity] = useState(1);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const active = getActiveReservations(reservations, project._id);
+  const partName = (id: string) =>
+    parts.find((p) => p._id === id)?.name ?? "Unknown part";
+  const canEdit = !isProjectClosed(project);
+
+  const handleReserve = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const part = parts.find((p) => p._id === partId);
+    if (!part || centerId === undefined) return;
+    if (!isValidQuantity(quantity)) {
+      toast.error("Quantity must be a whole number above zero");
+      return;
+    }
+
+    setBusyId("new");
+    try {
+      await reservePart(part, {
+        projectId: project._id,
+        centerId,
+        quantity,
+        reservedBy,
+      });
+      toast.success(`Reserved ${quantity} × ${part.name}`);
+      setPartId("");
+      setQuantity(1);
+    } catch (err) {
+      if (!(err instanceof InsufficientStockError)) {
+        console.error("Failed to reserve part:", err);
+      }
+      toast.error(
+        err instanceof InsufficientStockError
+          ? err.message
+          : handleApiError(err),
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSettle = async (
+    reservationId: string,
+    outcome: "release" | "consume",
+  ) => {
+    setBusyId(reservationId);
+    try {
+      await settleReservation(reservationId, outcome);
+    } catch (err) {
+      console.error(`Failed to ${outcome} reservation:`, err);
+      toast.error(handleApiError(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-600/30 bg-slate-700/30 p-5">
+      <h3 className="mb-4 flex items-center gap-2 text-lg font-semibold text-emerald-400">
+        <FaBoxOpen />
+        Parts
+      </h3>
+
+      {active.length === 0 ? (
+        <p className="mb-4 text-sm text-slate-400">
+          No parts reserved for this job.
+        </p>
+      ) : (
+        <ul className="mb-4 space-y-2">
+          {active.map((reservation) => (
+            <li
+              key={reservation._id}
+              className="flex items-center justify-between gap-2 rounded-lg border border-slate-600/30 bg-slate-800/50 p-3 text-sm"
+            >
+              <div>
+                <p className="text-slate-200">
+                  {reservation.quantity} × {partName(reservation.partId)}
+                </p>
+                <p className="text-xs text-slate-400">
+                  {reservation.status} by {reservation.reservedBy.name}
+                </p>
+              </div>
+              {reservation.status === "Reserved" && canEdit && (
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleSettle(reservation._id, "consume")}
+                    disabled={busyId === reservation._id}
+                    className="rounded-md bg-emerald-600 px-2.5 py-1 text-xs font-medium text-white hover:bg-emerald-700 disabled:opacity-50"
+                  >
+                    Mark used
+                  </button>
+                  <button
+                    onClick={() => handleSettle(reservation._id, "release")}
+                    disabled={busyId === reservation._id}
+                    className="rounded-md border border-slate-500 px-2.5 py-1 text-xs font-medium text-slate-300 hover:bg-slate-600/50 disabled:opacity-50"
+                  >
+                    Release
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEdit && (
+        <form onSubmit={handleReserve} className="space-y-2">
+          {bookingCenterId === undefined && (
+            <select
+              value={centerId ?? ""}
+              onChange={(e) =>
+                setCenterId(e.target.value ? Number(e.target.value) : undefined)
+              }
+              className="w-full rounded-lg border border-slate-600/50 bg-slate-800/50 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none"
+            >
+              <option value="">Select service center...</option>
+              {centers.map((center) => (
+                <option key={center.id} value={center.id}>
+                  {center.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <div className="flex gap-2">
+            <select
+              value={partId}
+              onChange={(e) => setPartId(e.target.value)}
+              disabled={centerId === undefined}
+              className="min-w-0 flex-1 rounded-lg border border-slate-600/50 bg-slate-800/50 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none disabled:opacity-50"
+            >
+              <option value="">Select part...</option>
+              {centerId !== undefined &&
+                parts.map((part) => {
+                  const available = getAvailable(
+                    findStockLevel(stockLevels, part._id, centerId),
+                  );
+                  return (
+                    <option
+                      key={part._id}
+                      value={part._id}
+                      disabled={available === 0}
+                    >
+                      {part.name} ({available} available)
+                    </option>
+                  );
+                })}
+            </select>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={quantity}
+              onChange={(e) => setQuantity(Number(e.target.value))}
+              aria-label="Quantity"
+              className="w-20 rounded-lg border border-slate-600/50 bg-slate-800/50 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none"
+            />
+            <button
+              type="submit"
+              disabled={busyId === "new" || !partId}
+              className="rounded-lg bg-emerald-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-emerald-700 disabled:opacity-50"
+            >
+              {busyId === "new" ? "Reserving..." : "Reserve"}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
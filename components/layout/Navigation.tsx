@@ -3,6 +3,7 @@
 import { useAuth, useAuthActions } from "@/lib/store/authStore";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
+import NotificationCenter from "./NotificationCenter";
 
 export default function Navigation() {
   const router = useRouter();
@@ -30,6 +31,11 @@ export default function Navigation() {
                   href: "/customer",
                   roles: ["ROLE_CUSTOMER"],
                 },
+                {
+                  name: "My Bookings",
+                  href: "/customer/bookings",
+                  roles: ["ROLE_CUSTOMER"],
+                },
               ]
             : []),
           ...(user?.role === "ROLE_EMPLOYEE"
@@ -39,6 +45,11 @@ export default function Navigation() {
                   href: "/employee",
                   roles: ["ROLE_EMPLOYEE"],
                 },
+                {
+                  name: "Schedule",
+                  href: "/employee/schedule",
+                  roles: ["ROLE_EMPLOYEE"],
+                },
               ]
             : []),
           ...(user?.role === "ROLE_ADMIN"
@@ -48,6 +59,26 @@ export default function Navigation() {
                   href: "/admin",
                   roles: ["ROLE_ADMIN"],
                 },
+                {
+                  name: "Assignments",
+                  href: "/admin/assignments",
+                  roles: ["ROLE_ADMIN"],
+                },
+                {
+                  name: "Inventory",
+                  href: "/admin/inventory",
+                  roles: ["ROLE_ADMIN"],
+                },
+                {
+                  name: "Centers",
+                  href: "/admin/centers",
+                  roles: ["ROLE_ADMIN"],
+                },
+                {
+                  name: "Services",
+                  href: "/admin/services",
+                  roles: ["ROLE_ADMIN"],
+                },
               ]
             : []),
         ]
@@ -88,6 +119,8 @@ export default function Navigation() {
           <div className="flex items-center space-x-4">
             {isAuthenticated && user ? (
               <div className="flex items-center space-x-4">
+                <NotificationCenter />
+
                 {/* User info */}
                 <div className="hidden sm:flex sm:items-center sm:space-x-2">
                   <span className="text-sm text-gray-700">
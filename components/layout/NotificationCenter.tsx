@@ -0,0 +1,116 @@
+"use client";
+
+import {
+  useNotificationActions,
+  useNotifications,
+} from "@/lib/store/notificationStore";
+import dayjs from "dayjs";
+import relativeTime from "dayjs/plugin/relativeTime";
+import { useRouter } from "next/navigation";
+import { useEffect, useRef, useState } from "react";
+import { IoNotificationsOutline } from "react-icons/io5";
+
+dayjs.extend(relativeTime);
+
+/**
+ * Bell icon with an unread badge and a dropdown of recent notifications
+ */
+export default function NotificationCenter() {
+  const router = useRouter();
+  const { notifications, unreadCount } = useNotifications();
+  const { markAsRead, markAllAsRead, clearNotifications } =
+    useNotificationActions();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const handleOpen = (id: string, href?: string) => {
+    markAsRead(id);
+    setIsOpen(false);
+    if (href) router.push(href);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="relative rounded-full p-2 text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700"
+        aria-label={`Notifications${unreadCount ? ` (${unreadCount} unread)` : ""}`}
+      >
+        <IoNotificationsOutline className="h-6 w-6" />
+        {unreadCount > 0 && (
+          <span className="absolute top-1 right-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-600 px-1 text-[10px] font-bold text-white">
+            {unreadCount > 9 ? "9+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-50 mt-2 w-80 overflow-hidden rounded-lg bg-white shadow-lg ring-1 ring-black/5">
+          <div className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
+            <p className="text-sm font-semibold text-gray-900">Notifications</p>
+            {notifications.length > 0 && (
+              <div className="flex gap-3 text-xs font-medium">
+                <button
+                  onClick={markAllAsRead}
+                  className="text-blue-600 hover:text-blue-500"
+                >
+                  Mark all read
+                </button>
+                <button
+                  onClick={clearNotifications}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  Clear
+                </button>
+              </div>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-8 text-center text-sm text-gray-500">
+              You&apos;re all caught up.
+            </p>
+          ) : (
+            <ul className="max-h-96 divide-y divide-gray-100 overflow-y-auto">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() =>
+                      handleOpen(notification.id, notification.href)
+                    }
+                    className={`w-full px-4 py-3 text-left transition-colors hover:bg-gray-50 ${
+                      notification.read ? "" : "bg-blue-50/60"
+                    }`}
+                  >
+                    <p className="text-sm font-medium text-gray-900">
+                      {notification.title}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {notification.message}
+                    </p>
+                    <p className="mt-1 text-xs text-gray-400">
+                      {dayjs(notification.createdAt).fromNow()}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { sortProgressUpdates } from "@/lib/models/progressUpdate";
+import type { ProgressUpdate } from "@/lib/store/projectsStore";
+import dayjs from "dayjs";
+import Image from "next/image";
+
+interface ProgressTimelineProps {
+  updates?: ProgressUpdate[];
+  // Employee screens are dark, customer screens light
+  variant?: "dark" | "light";
+}
+
+const VARIANTS = {
+  dark: {
+    line: "border-slate-600/50",
+    dot: "border-slate-800",
+    meta: "text-slate-400",
+    text: "text-slate-200",
+    photo: "border-slate-600/50",
+  },
+  light: {
+    line: "border-gray-200",
+    dot: "border-white",
+    meta: "text-gray-500",
+    text: "text-gray-800",
+    photo: "border-gray-200",
+  },
+};
+
+/**
+ * Progress updates posted on a job, newest first, with their photos
+ */
+export default function ProgressTimeline({
+  updates,
+  variant = "dark",
+}: ProgressTimelineProps) {
+  const styles = VARIANTS[variant];
+  const sorted = sortProgressUpdates(updates);
+
+  if (sorted.length === 0) {
+    return <p className={`text-sm ${styles.meta}`}>No progress updates yet.</p>;
+  }
+
+  return (
+    <ol className={`relative ml-2 space-y-5 border-l ${styles.line}`}>
+      {sorted.map((update) => (
+        <li key={update._id} className="ml-4">
+          <span
+            className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border ${styles.dot} bg-blue-500`}
+          />
+          <p className={`text-xs ${styles.meta}`}>
+            {dayjs(update.createdAt).format("YYYY-MM-DD HH:mm")} by{" "}
+            {update.author.name}
+          </p>
+          <p className={`mt-1 text-sm whitespace-pre-line ${styles.text}`}>
+            {update.message}
+          </p>
+          {update.photos.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-2">
+              {update.photos.map((photo) => (
+                <a
+                  key={photo.url}
+                  href={photo.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className={`relative h-20 w-20 overflow-hidden rounded-md border ${styles.photo}`}
+                >
+                  {/* Uploads may live on another host, so skip optimisation */}
+                  <Image
+                    src={photo.url}
+                    alt={photo.name ?? "Progress photo"}
+                    fill
+                    unoptimized
+                    className="object-cover"
+                  />
+                </a>
+              ))}
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
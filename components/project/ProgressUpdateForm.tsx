@@ -0,0 +1,162 @@
+"use client";
+
+import { handleApiError } from "@/lib/api/clientFactory";
+import { projectApi } from "@/lib/api/projectClient";
+import { uploadApi } from "@/lib/api/uploadClient";
+import {
+  assertValidPhoto,
+  InvalidPhotoError,
+  MAX_PHOTOS_PER_UPDATE,
+  PHOTO_EXTENSIONS,
+} from "@/lib/models/progressUpdate";
+import { Project, useProjectActions } from "@/lib/store/projectsStore";
+import Image from "next/image";
+import { useEffect, useMemo, useState } from "react";
+import toast from "react-hot-toast";
+import { FaCamera, FaTimes } from "react-icons/fa";
+
+interface ProgressUpdateFormProps {
+  project: Project;
+  author: ProjectProgressUpdateRequest["author"];
+}
+
+/**
+ * Lets the employee post a progress update, with optional photos,
+ * that the customer sees on their booking
+ */
+export default function ProgressUpdateForm({
+  project,
+  author,
+}: ProgressUpdateFormProps) {
+  const { upsertProject } = useProjectActions();
+  const [message, setMessage] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const previews = useMemo(
+    () => files.map((file) => URL.createObjectURL(file)),
+    [files],
+  );
+
+  useEffect(
+    () => () => previews.forEach((url) => URL.revokeObjectURL(url)),
+    [previews],
+  );
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files ?? []);
+    // Allow picking the same file again after removing it
+    e.target.value = "";
+
+    try {
+      if (files.length + picked.length > MAX_PHOTOS_PER_UPDATE) {
+        throw new InvalidPhotoError(
+          `Attach at most ${MAX_PHOTOS_PER_UPDATE} photos per update`,
+        );
+      }
+      picked.forEach(assertValidPhoto);
+      setFiles((current) => [...current, ...picked]);
+    } catch (err) {
+      if (!(err instanceof InvalidPhotoError)) throw err;
+      toast.error(err.message);
+    }
+  };
+
+  const removeFile = (index: number) => {
+    setFiles((current) => current.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!message.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const photos = await Promise.all(files.map(uploadApi.uploadPhoto));
+      const updated = await projectApi.addProgressUpdate(project._id, {
+        message: message.trim(),
+        photos,
+        author,
+      });
+      upsertProject(updated);
+      setMessage("");
+      setFiles([]);
+      toast.success("Progress update posted");
+    } catch (err) {
+      console.error("Failed to post progress update:", err);
+      toast.error(handleApiError(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <textarea
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        rows={3}
+        placeholder="What has been done? The customer will see this."
+        className="w-full rounded-lg border border-slate-600/50 bg-slate-800/50 px-3 py-2 text-sm text-white placeholder-slate-500 focus:border-blue-500 focus:outline-none"
+      />
+
+      {previews.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {previews.map((url, index) => (
+            <div
+              key={url}
+              className="relative h-16 w-16 overflow-hidden rounded-md border border-slate-600/50"
+            >
+              <Image
+                src={url}
+                alt={files[index].name}
+                fill
+                unoptimized
+                className="object-cover"
+              />
+              <button
+                type="button"
+                onClick={() => removeFile(index)}
+                aria-label={`Remove ${files[index].name}`}
+                className="absolute top-0.5 right-0.5 rounded-full bg-black/60 p-1 text-white hover:bg-black/80"
+              >
+                <FaTimes className="text-[10px]" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <label
+          className={`flex cursor-pointer items-center gap-2 text-sm text-slate-300 hover:text-white ${
+            files.length >= MAX_PHOTOS_PER_UPDATE
+              ? "pointer-events-none opacity-50"
+              : ""
+          }`}
+        >
+          <FaCamera />
+          Add photos ({files.length}/{MAX_PHOTOS_PER_UPDATE})
+          <input
+            type="file"
+            accept={Object.keys(PHOTO_EXTENSIONS).join(",")}
+            multiple
+            onChange={handleFiles}
+            className="hidden"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={isSaving || !message.trim()}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSaving
+            ? files.length > 0
+              ? "Uploading..."
+              : "Posting..."
+            : "Post Update"}
+        </button>
+      </div>
+    </form>
+  );
+}
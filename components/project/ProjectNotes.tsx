@@ -0,0 +1,95 @@
+"use client";
+
+import { projectApi } from "@/lib/api/projectClient";
+import { handleApiError } from "@/lib/api/clientFactory";
+import { isProjectClosed } from "@/lib/models/project";
+import { Project, useProjectActions } from "@/lib/store/projectsStore";
+import dayjs from "dayjs";
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { FaStickyNote } from "react-icons/fa";
+
+interface ProjectNotesProps {
+  project: Project;
+  author: ProjectNoteRequest["author"];
+}
+
+/**
+ * Work log for a project: lists its notes and lets the employee add one
+ */
+export default function ProjectNotes({ project, author }: ProjectNotesProps) {
+  const { upsertProject } = useProjectActions();
+  const [text, setText] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const notes = project.projectNotes ?? [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const updated = await projectApi.addNote(project._id, {
+        text: text.trim(),
+        author,
+      });
+      upsertProject(updated);
+      setText("");
+    } catch (err) {
+      console.error("Failed to add project note:", err);
+      toast.error(handleApiError(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-600/30 bg-slate-700/30 p-5">
+      <h3 className="mb-4 flex items-center gap-2 text-lg font-semibold text-amber-400">
+        <FaStickyNote />
+        Project Notes
+        <span className="ml-auto text-xs font-normal text-slate-400">
+          {project.projectType} · {project.status}
+        </span>
+      </h3>
+
+      {notes.length === 0 ? (
+        <p className="mb-4 text-sm text-slate-400">No notes yet.</p>
+      ) : (
+        <ul className="mb-4 max-h-60 space-y-3 overflow-y-auto">
+          {notes.map((note) => (
+            <li
+              key={note._id}
+              className="rounded-lg border border-slate-600/30 bg-slate-800/50 p-3"
+            >
+              <p className="text-sm text-slate-200">{note.text}</p>
+              <p className="mt-1 text-xs text-slate-400">
+                {note.author.name} ·{" "}
+                {dayjs(note.createdAt).format("MMM D, HH:mm")}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!isProjectClosed(project) && (
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <input
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Add a note about the work..."
+            className="flex-1 rounded-lg border border-slate-600/50 bg-slate-800/50 px-3 py-2 text-sm text-white placeholder-slate-500 focus:border-amber-500 focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={isSaving || !text.trim()}
+            className="rounded-lg bg-amber-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-amber-700 disabled:opacity-50"
+          >
+            {isSaving ? "Saving..." : "Add"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
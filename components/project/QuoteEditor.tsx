@@ -0,0 +1,246 @@
+"use client";
+
+import { handleApiError } from "@/lib/api/clientFactory";
+import { projectApi } from "@/lib/api/projectClient";
+import {
+  getLineItemTotal,
+  getQuoteTotals,
+  isQuoteEditable,
+  QuoteLineItem,
+  validateQuoteItems,
+} from "@/lib/models/quote";
+import { Project, useProjectActions } from "@/lib/store/projectsStore";
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { FaFileInvoiceDollar, FaPlus, FaTrash } from "react-icons/fa";
+
+interface QuoteEditorProps {
+  project: Project;
+}
+
+const QUOTE_STATUS_STYLES = {
+  Draft: "bg-slate-500/20 text-slate-300 border-slate-500/30",
+  Sent: "bg-amber-500/20 text-amber-400 border-amber-500/30",
+  Approved: "bg-emerald-500/20 text-emerald-400 border-emerald-500/30",
+  Rejected: "bg-red-500/20 text-red-400 border-red-500/30",
+};
+
+const emptyItem = (): QuoteLineItem => ({
+  type: "part",
+  description: "",
+  quantity: 1,
+  unitPrice: 0,
+});
+
+/**
+ * Employee editor for a modification project's quote
+ *
+ * Features:
+ * - Part and labour line items with live totals
+ * - Save as draft or send to the customer for approval
+ * - Read-only once sent; a rejected quote can be revised and re-sent
+ */
+export default function QuoteEditor({ project }: QuoteEditorProps) {
+  const { upsertProject } = useProjectActions();
+  const { quote } = project;
+  const [items, setItems] = useState<QuoteLineItem[]>(
+    quote?.items.length ? quote.items : [emptyItem()],
+  );
+  const [notes, setNotes] = useState(quote?.notes ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const editable = isQuoteEditable(quote);
+  const totals = getQuoteTotals(editable ? items : (quote?.items ?? []));
+
+  const updateItem = (index: number, changes: Partial<QuoteLineItem>) =>
+    setItems((current) =>
+      current.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    );
+
+  const handleSave = async (send: boolean) => {
+    const problem = validateQuoteItems(items);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      let updated = await projectApi.saveQuote(project._id, {
+        items: items.map((item) => ({
+          ...item,
+          description: item.description.trim(),
+        })),
+        notes: notes.trim() || undefined,
+      });
+      if (send) {
+        updated = await projectApi.sendQuote(project._id);
+      }
+      upsertProject(updated);
+      toast.success(send ? "Quote sent to the customer" : "Quote saved");
+    } catch (err) {
+      console.error("Failed to save quote:", err);
+      toast.error(handleApiError(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-600/30 bg-slate-700/30 p-5">
+      <div className="mb-4 flex items-center gap-2">
+        <FaFileInvoiceDollar className="text-cyan-400" />
+        <h3 className="text-lg font-semibold text-cyan-400">
+          Modification Quote
+        </h3>
+        {quote && (
+          <span
+            className={`ml-auto rounded-full border px-3 py-1 text-xs font-medium ${QUOTE_STATUS_STYLES[quote.status]}`}
+          >
+            {quote.status}
+          </span>
+        )}
+      </div>
+
+      {quote?.status === "Rejected" && quote.rejectionReason && (
+        <p className="mb-4 rounded-lg border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-300">
+          Customer rejected this quote: {quote.rejectionReason}
+        </p>
+      )}
+
+      {editable ? (
+        <div className="space-y-2">
+          {items.map((item, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <select
+                value={item.type}
+                onChange={(e) =>
+                  updateItem(index, {
+                    type: e.target.value as QuoteLineItem["type"],
+                  })
+                }
+                className="rounded-lg border border-slate-600/50 bg-slate-800/50 px-2 py-2 text-sm text-white"
+              >
+                <option value="part">Part</option>
+                <option value="labour">Labour</option>
+              </select>
+              <input
+                value={item.description}
+                onChange={(e) =>
+                  updateItem(index, { description: e.target.value })
+                }
+                placeholder={
+                  item.type === "labour" ? "Work to be done" : "Part name"
+                }
+                className="min-w-0 flex-1 rounded-lg border border-slate-600/50 bg-slate-800/50 px-3 py-2 text-sm text-white placeholder-slate-500"
+              />
+              <input
+                type="number"
+                min={0}
+                step={item.type === "labour" ? 0.5 : 1}
+                value={item.quantity}
+                onChange={(e) =>
+                  updateItem(index, { quantity: Number(e.target.value) })
+                }
+                title={item.type === "labour" ? "Hours" : "Quantity"}
+                className="w-20 rounded-lg border border-slate-600/50 bg-slate-800/50 px-2 py-2 text-sm text-white"
+              />
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                value={item.unitPrice}
+                onChange={(e) =>
+                  updateItem(index, { unitPrice: Number(e.target.value) })
+                }
+                title={item.type === "labour" ? "Rate per hour" : "Unit price"}
+                className="w-24 rounded-lg border border-slate-600/50 bg-slate-800/50 px-2 py-2 text-sm text-white"
+              />
+              <span className="w-20 text-right text-sm text-slate-300">
+                ${getLineItemTotal(item).toFixed(2)}
+              </span>
+              <button
+                onClick={() =>
+                  setItems((current) => current.filter((_, i) => i !== index))
+                }
+                className="p-2 text-slate-400 transition-colors hover:text-red-400"
+                aria-label="Remove line item"
+              >
+                <FaTrash />
+              </button>
+            </div>
+          ))}
+
+          <button
+            onClick={() => setItems((current) => [...current, emptyItem()])}
+            className="flex items-center gap-2 text-sm font-medium text-cyan-400 hover:text-cyan-300"
+          >
+            <FaPlus /> Add line item
+          </button>
+
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Scope and notes for the customer"
+            rows={2}
+            className="mt-2 w-full rounded-lg border border-slate-600/50 bg-slate-800/50 px-3 py-2 text-sm text-white placeholder-slate-500"
+          />
+        </div>
+      ) : (
+        <ul className="space-y-2 text-sm">
+          {quote?.items.map((item, index) => (
+            <li key={index} className="flex justify-between text-slate-300">
+              <span>
+                {item.description}{" "}
+                <span className="text-slate-500">
+                  ({item.quantity} {item.type === "labour" ? "h" : "×"} $
+                  {item.unitPrice.toFixed(2)})
+                </span>
+              </span>
+              <span>${getLineItemTotal(item).toFixed(2)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-4 space-y-1 border-t border-slate-600/30 pt-4 text-sm">
+        <div className="flex justify-between text-slate-400">
+          <span>Parts</span>
+          <span>${totals.parts.toFixed(2)}</span>
+        </div>
+        <div className="flex justify-between text-slate-400">
+          <span>Labour ({totals.labourHours} h)</span>
+          <span>${totals.labour.toFixed(2)}</span>
+        </div>
+        <div className="flex justify-between text-base font-semibold text-white">
+          <span>Total</span>
+          <span>${totals.total.toFixed(2)}</span>
+        </div>
+      </div>
+
+      {editable && (
+        <div className="mt-4 flex gap-2">
+          <button
+            onClick={() => handleSave(false)}
+            disabled={isSaving}
+            className="flex-1 rounded-lg border border-slate-600 px-4 py-2 text-sm font-medium text-slate-200 transition-colors hover:bg-slate-700 disabled:opacity-50"
+          >
+            Save Draft
+          </button>
+          <button
+            onClick={() => handleSave(true)}
+            disabled={isSaving}
+            className="flex-1 rounded-lg bg-cyan-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-cyan-700 disabled:opacity-50"
+          >
+            {isSaving ? "Saving..." : "Send to Customer"}
+          </button>
+        </div>
+      )}
+      {quote?.status === "Sent" && (
+        <p className="mt-4 text-sm text-slate-400">
+          Waiting for the customer to approve this quote.
+        </p>
+      )}
+    </div>
+  );
+}
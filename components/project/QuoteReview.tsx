@@ -0,0 +1,158 @@
+"use client";
+
+import { handleApiError } from "@/lib/api/clientFactory";
+import { projectApi } from "@/lib/api/projectClient";
+import { getLineItemTotal, getQuoteTotals } from "@/lib/models/quote";
+import { Project, useProjectActions } from "@/lib/store/projectsStore";
+import dayjs from "dayjs";
+import { useState } from "react";
+import toast from "react-hot-toast";
+
+interface QuoteReviewProps {
+  project: Project;
+}
+
+const QUOTE_STATUS_BADGES = {
+  Draft: "bg-gray-100 text-gray-700",
+  Sent: "bg-yellow-100 text-yellow-800",
+  Approved: "bg-green-100 text-green-800",
+  Rejected: "bg-red-100 text-red-800",
+};
+
+/**
+ * Customer view of a modification quote with approve and reject actions
+ */
+export default function QuoteReview({ project }: QuoteReviewProps) {
+  const { upsertProject } = useProjectActions();
+  const [isResponding, setIsResponding] = useState(false);
+  const { quote } = project;
+
+  // Drafts are still being worked on by the shop
+  if (!quote || quote.status === "Draft") return null;
+
+  const totals = getQuoteTotals(quote.items);
+
+  const respond = async (decision: "Approved" | "Rejected") => {
+    let reason: string | undefined;
+    if (decision === "Rejected") {
+      const input = window.prompt("Why are you rejecting this quote?");
+      if (input === null) return;
+      reason = input.trim() || undefined;
+    }
+
+    setIsResponding(true);
+    try {
+      const updated = await projectApi.respondToQuote(project._id, {
+        decision,
+        reason,
+      });
+      upsertProject(updated);
+      toast.success(
+        decision === "Approved"
+          ? "Quote approved. Work can now begin."
+          : "Quote rejected. The shop will follow up with a revision.",
+      );
+    } catch (err) {
+      console.error("Failed to respond to quote:", err);
+      toast.error(handleApiError(err));
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg bg-white shadow">
+      <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">
+            Modification Quote
+          </h3>
+          <p className="text-sm text-gray-500">
+            {project.serviceType}
+            {quote.sentAt && ` · sent ${dayjs(quote.sentAt).format("MMM D")}`}
+          </p>
+        </div>
+        <span
+          className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${QUOTE_STATUS_BADGES[quote.status]}`}
+        >
+          {quote.status === "Sent" ? "Awaiting approval" : quote.status}
+        </span>
+      </div>
+
+      <div className="px-6 py-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="pb-2 font-medium">Item</th>
+              <th className="pb-2 text-right font-medium">Qty / Hours</th>
+              <th className="pb-2 text-right font-medium">Price</th>
+              <th className="pb-2 text-right font-medium">Total</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {quote.items.map((item, index) => (
+              <tr key={index} className="text-gray-900">
+                <td className="py-2">
+                  {item.description}
+                  <span className="ml-2 text-xs text-gray-400 capitalize">
+                    {item.type}
+                  </span>
+                </td>
+                <td className="py-2 text-right">{item.quantity}</td>
+                <td className="py-2 text-right">
+                  ${item.unitPrice.toFixed(2)}
+                </td>
+                <td className="py-2 text-right">
+                  ${getLineItemTotal(item).toFixed(2)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <dl className="mt-4 space-y-1 border-t border-gray-200 pt-4 text-sm">
+          <div className="flex justify-between text-gray-500">
+            <dt>Parts</dt>
+            <dd>${totals.parts.toFixed(2)}</dd>
+          </div>
+          <div className="flex justify-between text-gray-500">
+            <dt>Labour ({totals.labourHours} h)</dt>
+            <dd>${totals.labour.toFixed(2)}</dd>
+          </div>
+          <div className="flex justify-between text-base font-semibold text-gray-900">
+            <dt>Total</dt>
+            <dd>${totals.total.toFixed(2)}</dd>
+          </div>
+        </dl>
+
+        {quote.notes && (
+          <p className="mt-4 text-sm text-gray-600">{quote.notes}</p>
+        )}
+        {quote.status === "Rejected" && quote.rejectionReason && (
+          <p className="mt-4 text-sm text-red-600">
+            You rejected this quote: {quote.rejectionReason}
+          </p>
+        )}
+
+        {quote.status === "Sent" && (
+          <div className="mt-6 flex gap-3">
+            <button
+              onClick={() => respond("Rejected")}
+              disabled={isResponding}
+              className="flex-1 rounded-md border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50 disabled:opacity-50"
+            >
+              Reject
+            </button>
+            <button
+              onClick={() => respond("Approved")}
+              disabled={isResponding}
+              className="flex-1 rounded-md bg-green-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-green-700 disabled:opacity-50"
+            >
+              {isResponding ? "Saving..." : "Approve Quote"}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
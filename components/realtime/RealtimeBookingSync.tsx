@@ -0,0 +1,121 @@
+"use client";
+
+import { Booking, BookingStatus } from "@/lib/models/booking";
+import { BookingEvent, parseBookingEvent } from "@/lib/realtime/events";
+import { connectRealtime } from "@/lib/realtime/realtimeClient";
+import { useAuth } from "@/lib/store/authStore";
+import { useBookingStore } from "@/lib/store/bookingStore";
+import { useNotificationStore } from "@/lib/store/notificationStore";
+import { useVehicleStore } from "@/lib/store/vehicleStore";
+import dayjs from "dayjs";
+import { useEffect, useRef } from "react";
+import toast from "react-hot-toast";
+
+// What the customer is told when their booking reaches a status
+const CUSTOMER_MESSAGES: Partial<
+  Record<BookingStatus, { title: string; outcome: string }>
+> = {
+  Accepted: { title: "Booking accepted", outcome: "has been accepted" },
+  Rejected: { title: "Booking declined", outcome: "was declined" },
+  "In-Progress": { title: "Service started", outcome: "is now in progress" },
+  "Hold on": { title: "Service on hold", outcome: "has been put on hold" },
+  Completed: { title: "Service completed", outcome: "is complete" },
+  Cancelled: { title: "Booking cancelled", outcome: "was cancelled" },
+};
+
+const BOOKING_RECEIVED = {
+  title: "Booking received",
+  outcome: "has been received",
+};
+
+const describeBooking = (booking: Booking) =>
+  `Your ${booking.serviceName || "service"} booking on ${dayjs(booking.date).format("MMM D")}`;
+
+/**
+ * Keeps the booking store in step with the realtime service
+ *
+ * Features:
+ * - Upserts created and updated bookings so open lists refresh live
+ * - Customers only receive their own bookings, with a toast and a
+ *   notification center entry whenever the status changes
+ * - Employees and admins get a notification for each new booking request
+ */
+export default function RealtimeBookingSync() {
+  const { token, user, isAuthenticated } = useAuth();
+  const userId = user?.id;
+  const role = user?.role;
+
+  // Silent refreshes swap the token; reconnects pick it up without
+  // tearing down a working stream
+  const tokenRef = useRef(token);
+  useEffect(() => {
+    tokenRef.current = token;
+  });
+
+  useEffect(() => {
+    if (!isAuthenticated || userId === undefined) return;
+
+    const handleEvent = ({ type, booking }: BookingEvent) => {
+      const isCustomer = role === "ROLE_CUSTOMER";
+      if (isCustomer && booking.customerId !== String(userId)) return;
+
+      const previous = useBookingStore
+        .getState()
+        .bookings.find((b) => b.bookingId === booking.bookingId);
+      useBookingStore.getState().upsertBooking(booking);
+
+      const { addNotification } = useNotificationStore.getState();
+
+      if (!isCustomer) {
+        if (type !== "booking.created" || previous) return;
+        const message = `${booking.customerName || "A customer"} requested ${booking.serviceName} for ${dayjs(booking.date).format("MMM D, HH:mm")}`;
+        addNotification({
+          title: "New booking request",
+          message,
+          href: "/employee/projects",
+        });
+        toast(message, { icon: "🛠️" });
+        return;
+      }
+
+      // Replayed or duplicate events don't need another notification
+      if (previous?.currentStatus === booking.currentStatus) return;
+
+      const copy =
+        type === "booking.created"
+          ? BOOKING_RECEIVED
+          : CUSTOMER_MESSAGES[booking.currentStatus];
+      if (!copy) return;
+
+      const reason = booking.statusHistory.at(-1)?.reason;
+      const message = `${describeBooking(booking)} ${copy.outcome}.${reason ? ` Reason: ${reason}` : ""}`;
+      addNotification({
+        title: copy.title,
+        message,
+        href: `/customer/bookings/${booking.bookingId}`,
+      });
+      if (
+        booking.currentStatus === "Rejected" ||
+        booking.currentStatus === "Cancelled"
+      ) {
+        toast.error(message);
+      } else {
+        toast.success(message);
+      }
+    };
+
+    return connectRealtime({
+      getToken: () => tokenRef.current,
+      onMessage: (type, data) => {
+        const event = parseBookingEvent(
+          type,
+          data,
+          useVehicleStore.getState().vehicles,
+        );
+        if (event) handleEvent(event);
+      },
+    });
+  }, [isAuthenticated, userId, role]);
+
+  return null;
+}
@@ -0,0 +1,68 @@
+import {
+  formatDuration,
+  getEntryDuration,
+  isRunning,
+  TimeEntry,
+} from "@/lib/models/timeLog";
+import dayjs from "dayjs";
+import { FaTrash } from "react-icons/fa";
+
+interface TimeEntryListProps {
+  entries: TimeEntry[];
+  now?: number;
+  // Shown only on entries for which canDelete returns true
+  onDelete?: (entry: TimeEntry) => void;
+  canDelete?: (entry: TimeEntry) => boolean;
+}
+
+/**
+ * Time entries newest first, with who logged them and for how long
+ */
+export default function TimeEntryList({
+  entries,
+  now = Date.now(),
+  onDelete,
+  canDelete = () => true,
+}: TimeEntryListProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-slate-400">No time logged yet.</p>;
+  }
+
+  const sorted = [...entries].sort(
+    (a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime(),
+  );
+
+  return (
+    <ul className="space-y-2">
+      {sorted.map((entry) => (
+        <li
+          key={entry._id}
+          className="flex items-center gap-3 rounded-lg border border-slate-600/30 bg-slate-800/50 px-3 py-2 text-sm"
+        >
+          <div className="min-w-0 flex-1">
+            <p className="font-medium text-slate-200">{entry.employeeName}</p>
+            <p className="text-xs text-slate-400">
+              {dayjs(entry.startedAt).format("MMM D, HH:mm")} –{" "}
+              {entry.endedAt ? dayjs(entry.endedAt).format("HH:mm") : "running"}
+              {entry.note && ` · ${entry.note}`}
+            </p>
+          </div>
+          <span
+            className={`font-mono ${isRunning(entry) ? "text-amber-400" : "text-slate-200"}`}
+          >
+            {formatDuration(getEntryDuration(entry, now))}
+          </span>
+          {onDelete && !isRunning(entry) && canDelete(entry) && (
+            <button
+              onClick={() => onDelete(entry)}
+              className="p-1 text-slate-500 transition-colors hover:text-red-400"
+              aria-label="Delete time entry"
+            >
+              <FaTrash />
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
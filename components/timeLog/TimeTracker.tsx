@@ -0,0 +1,216 @@
+"use client";
+
+import { handleApiError } from "@/lib/api/clientFactory";
+import { useNow } from "@/lib/hooks/useNow";
+import { useTimeLog } from "@/lib/hooks/useTimeLog";
+import { useAuth } from "@/lib/store/authStore";
+import {
+  formatDuration,
+  getEntryDuration,
+  getTotalDuration,
+  getTotalsByEmployee,
+  InvalidTimeEntryError,
+  TimeEntryOverlapError,
+} from "@/lib/models/timeLog";
+import dayjs from "dayjs";
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { FaPlay, FaStop, FaStopwatch } from "react-icons/fa";
+import TimeEntryList from "./TimeEntryList";
+
+interface TimeTrackerProps {
+  bookingId: string;
+  projectId?: string;
+}
+
+const errorMessage = (err: unknown) =>
+  err instanceof TimeEntryOverlapError || err instanceof InvalidTimeEntryError
+    ? err.message
+    : handleApiError(err);
+
+/**
+ * Start/stop timer and manual time entries for one booking
+ */
+export default function TimeTracker({
+  bookingId,
+  projectId,
+}: TimeTrackerProps) {
+  const { user } = useAuth();
+  const {
+    entries,
+    runningEntry,
+    startTimer,
+    stopTimer,
+    addManualEntry,
+    deleteEntry,
+  } = useTimeLog({ bookingId });
+  const [isBusy, setIsBusy] = useState(false);
+  const [showManual, setShowManual] = useState(false);
+  const [manual, setManual] = useState({
+    date: dayjs().format("YYYY-MM-DD"),
+    start: "",
+    end: "",
+    note: "",
+  });
+  const now = useNow(1000, !!runningEntry);
+
+  const bookingEntries = entries.filter((e) => e.bookingId === bookingId);
+  const runningHere = runningEntry?.bookingId === bookingId;
+  const byEmployee = getTotalsByEmployee(bookingEntries, now);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+      toast.success(success);
+      return true;
+    } catch (err) {
+      console.error("Time log action failed:", err);
+      toast.error(errorMessage(err));
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleManualSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!manual.start || !manual.end) {
+      toast.error("Enter a start and end time");
+      return;
+    }
+
+    const saved = await run(
+      () =>
+        addManualEntry({
+          bookingId,
+          projectId,
+          startedAt: dayjs(`${manual.date}T${manual.start}`).toISOString(),
+          endedAt: dayjs(`${manual.date}T${manual.end}`).toISOString(),
+          note: manual.note.trim() || undefined,
+        }),
+      "Time entry added",
+    );
+    if (saved) {
+      setManual((current) => ({ ...current, start: "", end: "", note: "" }));
+      setShowManual(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-600/30 bg-slate-700/30 p-5">
+      <h3 className="mb-4 flex items-center gap-2 text-lg font-semibold text-amber-400">
+        <FaStopwatch />
+        Time Log
+        <span className="ml-auto text-sm font-normal text-slate-300">
+          Total {formatDuration(getTotalDuration(bookingEntries, now))}
+        </span>
+      </h3>
+
+      {/* Timer */}
+      <div className="mb-4 flex items-center gap-3">
+        {runningEntry ? (
+          <>
+            <span className="font-mono text-2xl text-amber-400">
+              {formatDuration(getEntryDuration(runningEntry, now), true)}
+            </span>
+            {!runningHere && (
+              <span className="text-xs text-slate-400">
+                running on another task
+              </span>
+            )}
+            <button
+              onClick={() =>
+                run(() => stopTimer(runningEntry._id), "Timer stopped")
+              }
+              disabled={isBusy}
+              className="ml-auto flex items-center gap-2 rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-red-700 disabled:opacity-50"
+            >
+              <FaStop /> Stop
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() =>
+              run(() => startTimer(bookingId, projectId), "Timer started")
+            }
+            disabled={isBusy}
+            className="flex items-center gap-2 rounded-lg bg-emerald-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-emerald-700 disabled:opacity-50"
+          >
+            <FaPlay /> Start Timer
+          </button>
+        )}
+        {!runningEntry && (
+          <button
+            onClick={() => setShowManual((open) => !open)}
+            className="ml-auto text-sm font-medium text-amber-400 hover:text-amber-300"
+          >
+            {showManual ? "Cancel" : "Add time manually"}
+          </button>
+        )}
+      </div>
+
+      {showManual && (
+        <form
+          onSubmit={handleManualSubmit}
+          className="mb-4 grid grid-cols-2 gap-2 sm:grid-cols-4"
+        >
+          <input
+            type="date"
+            value={manual.date}
+            max={dayjs().format("YYYY-MM-DD")}
+            onChange={(e) => setManual({ ...manual, date: e.target.value })}
+            className="rounded-lg border border-slate-600/50 bg-slate-800/50 px-2 py-2 text-sm text-white"
+          />
+          <input
+            type="time"
+            value={manual.start}
+            onChange={(e) => setManual({ ...manual, start: e.target.value })}
+            className="rounded-lg border border-slate-600/50 bg-slate-800/50 px-2 py-2 text-sm text-white"
+          />
+          <input
+            type="time"
+            value={manual.end}
+            onChange={(e) => setManual({ ...manual, end: e.target.value })}
+            className="rounded-lg border border-slate-600/50 bg-slate-800/50 px-2 py-2 text-sm text-white"
+          />
+          <button
+            type="submit"
+            disabled={isBusy}
+            className="rounded-lg bg-amber-600 px-3 py-2 text-sm font-medium text-white transition-colors hover:bg-amber-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+          <input
+            value={manual.note}
+            onChange={(e) => setManual({ ...manual, note: e.target.value })}
+            placeholder="What was done (optional)"
+            className="col-span-2 rounded-lg border border-slate-600/50 bg-slate-800/50 px-3 py-2 text-sm text-white placeholder-slate-500 sm:col-span-4"
+          />
+        </form>
+      )}
+
+      {byEmployee.length > 1 && (
+        <div className="mb-4 flex flex-wrap gap-2 text-xs">
+          {byEmployee.map(({ employeeName, duration }) => (
+            <span
+              key={employeeName}
+              className="rounded-full bg-slate-800/60 px-3 py-1 text-slate-300"
+            >
+              {employeeName}: {formatDuration(duration)}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <TimeEntryList
+        entries={bookingEntries}
+        now={now}
+        onDelete={(entry) =>
+          run(() => deleteEntry(entry._id), "Time entry deleted")
+        }
+        canDelete={(entry) => String(entry.employeeId) === String(user?.id)}
+      />
+    </div>
+  );
+}
@@ -35,9 +35,11 @@ const VEHICLE_TYPES = ["Car", "Bike", "Van", "Truck", "SUV"];
 interface AddVehicleProps {
   isOpen: boolean;
   onClose: () => void;
+  // Called with each vehicle the backend saves
+  onVehicleAdded?: (vehicle: Vehicle) => void;
 }
 
-const AddVehicle: React.FC<AddVehicleProps> = ({ isOpen, onClose }) => {
+const AddVehicle: React.FC<AddVehicleProps> = ({ isOpen, onClose, onVehicleAdded }) => {
   const { vehicles } = useVehicles();
   const { addVehicle, removeVehicle, updateVehicle, setLoading, setError, setVehicles } = useVehicleActions();
 
@@ -127,6 +129,7 @@ const AddVehicle: React.FC<AddVehicleProps> = ({ isOpen, onClose }) => {
         };
         const savedVehicle = await vehicleApi.addVehicle(newVehicleData);
         addVehicle(savedVehicle); // add full object from backend
+        onVehicleAdded?.(savedVehicle);
         toast.success("Vehicle added successfully");
         
       }
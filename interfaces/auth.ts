@@ -12,6 +12,11 @@ interface LoginRequest {
 
 interface AuthResponse {
   accessToken: string;
+  refreshToken: string;
+}
+
+interface RefreshTokenRequest {
+  refreshToken: string;
 }
 
 interface UserResponse {
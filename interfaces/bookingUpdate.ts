@@ -1,15 +1,44 @@
-import { Booking } from "@/lib/store/bookingStore";
+import type { Assignee, BookingSource, BookingStatus } from "@/lib/models/booking";
+import type { BookingStatusChange } from "@/lib/models/bookingStatus";
+import type { Vehicle } from "@/lib/store/vehicleStore";
 
 
 interface BookingUpdate {
     bookingId: string;
-    newStatus: Booking["currentStatus"];
+    newStatus: BookingStatus;
+    // Status the caller last saw; the transition is validated against it
+    currentStatus?: BookingStatus;
+    changedBy?: BookingStatusChange["changedBy"];
+    reason?: string;
+    // Backend the booking came from (defaults to the booking requests service)
+    source?: BookingSource;
 }
 
-interface fetchBookingRequests extends Booking {
-     
+// Booking as returned by the booking requests service; see fromBookingRequestPayload
+interface BookingRequestPayload {
+    _id: string;
+    bookingId: string;
+    customerId?: string;
+    customerName: string;
+    contactPhone?: string;
+    currentStatus: string;
+    date: string;
+    serviceName: string;
+    vehicle?: Vehicle;
+    notes?: string;
+    assignedTo?: Assignee | null;
+    statusHistory?: Array<{
+        from: string | null;
+        to: string;
+        changedBy: BookingStatusChange["changedBy"];
+        changedAt: string;
+        reason?: string;
+    }>;
 }
-export type { BookingUpdate, fetchBookingRequests };
-
-
-
+// Assign a booking to an employee, or return it to the pool with null
+interface BookingAssignment {
+    bookingId: string;
+    assignee: Assignee | null;
+    source?: BookingSource;
+}
+export type { BookingUpdate, BookingRequestPayload, BookingAssignment };
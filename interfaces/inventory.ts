@@ -0,0 +1,65 @@
+interface PartRequest {
+    sku: string;
+    name: string;
+    category?: string;
+    unitPrice: number;
+    // Stock at or below this level triggers a low-stock alert
+    reorderLevel: number;
+}
+
+interface PartResponse extends PartRequest {
+    _id: string;
+}
+
+interface PartUpdateRequest {
+    name?: string;
+    category?: string;
+    unitPrice?: number;
+    reorderLevel?: number;
+}
+
+// Stock of one part at one service center
+interface StockLevelResponse {
+    partId: string;
+    centerId: number;
+    onHand: number;
+    // Held for projects but not yet used
+    reserved: number;
+}
+
+interface StockReceiptRequest {
+    partId: string;
+    centerId: number;
+    quantity: number;
+    // Supplier, delivery note number...
+    reference?: string;
+}
+
+interface PartReservationRequest {
+    projectId: string;
+    partId: string;
+    centerId: number;
+    quantity: number;
+    reservedBy: {
+        id?: number | string;
+        name: string;
+    };
+}
+
+interface PartReservationResponse extends PartReservationRequest {
+    _id: string;
+    status: "Reserved" | "Consumed" | "Released";
+    // Saved when the parts are consumed, so invoices keep what was charged
+    partName?: string;
+    unitPrice?: number;
+    createdAt: string;
+}
+
+interface InventoryQuery {
+    centerId?: number;
+}
+
+interface PartReservationQuery {
+    projectId?: string;
+    status?: PartReservationResponse["status"];
+}
@@ -5,4 +5,87 @@ interface ProjectRequest {
     serviceType: string;
     projectType: "Service" | "Modification";
      notes?: string;
-}
\ No newline at end of file
+    assignedTo?: ProjectAssignee | null;
+}
+
+interface ProjectAssignee {
+    id: number | string;
+    name: string;
+}
+
+interface ProjectNoteResponse {
+    _id: string;
+    text: string;
+    author: {
+        id?: number | string;
+        name: string;
+    };
+    createdAt: string;
+}
+
+interface ProjectResponse extends Omit<ProjectRequest, "vehicleId"> {
+    _id: string;
+    vehicle: VehicleResponse[];
+    status: "In Progress" | "Completed" | "On Hold" | "Pending" | "Cancelled";
+    startDate: string;
+    endDate?: string | null;
+    projectNotes?: ProjectNoteResponse[];
+    progressUpdates?: ProjectProgressUpdateResponse[];
+    quote?: ProjectQuoteResponse;
+}
+
+interface ProjectNoteRequest {
+    text: string;
+    author: ProjectNoteResponse["author"];
+}
+
+interface ProjectPhoto {
+    url: string;
+    name?: string;
+}
+
+// Photos are uploaded first; the update only carries their URLs
+interface ProjectProgressUpdateRequest {
+    message: string;
+    photos: ProjectPhoto[];
+    author: ProjectNoteResponse["author"];
+}
+
+interface ProjectProgressUpdateResponse extends ProjectProgressUpdateRequest {
+    _id: string;
+    createdAt: string;
+}
+
+interface ProjectQuery {
+    status?: ProjectResponse["status"];
+    customerId?: string;
+    appointmentId?: string;
+}
+
+// Modification quote; only drafts (or rejected quotes) can be saved
+interface ProjectQuoteRequest {
+    items: Array<{
+        type: "part" | "labour";
+        description: string;
+        quantity: number;
+        unitPrice: number;
+    }>;
+    notes?: string;
+}
+
+interface ProjectQuoteResponse extends ProjectQuoteRequest {
+    status: "Draft" | "Sent" | "Approved" | "Rejected";
+    sentAt?: string;
+    respondedAt?: string;
+    rejectionReason?: string;
+}
+
+interface ProjectQuoteDecisionRequest {
+    decision: "Approved" | "Rejected";
+    reason?: string;
+}
+
+interface ProjectUpdateRequest {
+    projectType?: ProjectRequest["projectType"];
+    notes?: string;
+}
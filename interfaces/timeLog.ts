@@ -0,0 +1,29 @@
+interface TimeEntryRequest {
+    bookingId: string;
+    projectId?: string;
+    employeeId: number | string;
+    employeeName: string;
+    startedAt: string;
+    // null while the timer is running
+    endedAt: string | null;
+    note?: string;
+}
+
+interface TimeEntryResponse extends TimeEntryRequest {
+    _id: string;
+}
+
+interface TimeEntryUpdateRequest {
+    startedAt?: string;
+    endedAt?: string | null;
+    note?: string;
+}
+
+interface TimeEntryQuery {
+    bookingId?: string;
+    projectId?: string;
+    employeeId?: number | string;
+    // ISO dates bounding startedAt
+    from?: string;
+    to?: string;
+}
@@ -1,52 +1,6 @@
-import { useAuthStore } from "../store/authStore";
-import axios from "axios";
+import { API_BASE_URLS, createApiClient } from "./clientFactory";
 
-const API_BASE_URL =process.env.AUTH_SERVICE_API_URL2 || "http://localhost:3004";
-
-export const apiClient = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    "Content-Type": "application/json",
-  },
-  timeout: 10000, // 10 second timeout
-});
-
-// Request interceptor to automatically add authorization header
- apiClient.interceptors.request.use(
-  (config) => {
-    const { token } = useAuthStore.getState();
-
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
-    }
-
-    return config;
-  },
-  (error) => {
-    return Promise.reject(error);
-  },
-);
-
-// Response interceptor for global error handling and token management
-apiClient.interceptors.response.use(
-  (response) => {
-    return response;
-  },
-  (error) => {
-    const { logout } = useAuthStore.getState();
-
-    // Handle 401 Unauthorized
-    if (error.response?.status === 401) {
-      logout();
-
-      if (typeof window !== "undefined") {
-        window.location.href = "/login";
-      }
-    }
-
-    return Promise.reject(error);
-  },
-);
+export const apiClient = createApiClient({ baseURL: API_BASE_URLS.vehicle });
 
 // Vehicle API methods
 export const vehicleApi = {
@@ -66,6 +20,11 @@ export const vehicleApi = {
     const response = await apiClient.get<VehicleResponse[]>(`/api/vehicle/get_vehicles`);
     return response.data;
   },
+
+    getVehicle: async (vehicleId: string) => {
+    const response = await apiClient.get<VehicleResponse>(`/api/vehicle/get_vehicle/${vehicleId}`);
+    return response.data;
+  },
   
     removeVehicle: async (data: VehicleRemoveRequest) => {
     const response = await apiClient.delete(`/api/vehicle/delete_vehicle/${data.vehicleId}`);
@@ -1,59 +1,18 @@
-import { useAuthStore } from "@/lib/store/authStore";
-import axios from "axios";
+import { API_BASE_URLS, createApiClient } from "@/lib/api/clientFactory";
 
-const API_BASE_URL =
-  process.env.AUTH_SERVICE_API_URL || "http://localhost:8080";
+export const apiClient = createApiClient({ baseURL: API_BASE_URLS.auth });
 
-export const apiClient = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    "Content-Type": "application/json",
-  },
-  timeout: 10000, // 10 second timeout
+// Login, register and refresh must not trigger the 401 refresh/logout handling
+const publicClient = createApiClient({
+  baseURL: API_BASE_URLS.auth,
+  withAuth: false,
 });
 
-// Request interceptor to automatically add authorization header
- apiClient.interceptors.request.use(
-  (config) => {
-    const { token } = useAuthStore.getState();
-
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
-    }
-
-    return config;
-  },
-  (error) => {
-    return Promise.reject(error);
-  },
-);
-
-// Response interceptor for global error handling and token management
-apiClient.interceptors.response.use(
-  (response) => {
-    return response;
-  },
-  (error) => {
-    const { logout } = useAuthStore.getState();
-
-    // Handle 401 Unauthorized
-    if (error.response?.status === 401) {
-      logout();
-
-      if (typeof window !== "undefined") {
-        window.location.href = "/login";
-      }
-    }
-
-    return Promise.reject(error);
-  },
-);
-
 // Authentication API methods
 export const authApi = {
   // Register a new user
   register: async (data: RegisterRequest) => {
-    const response = await apiClient.post<AuthResponse>(
+    const response = await publicClient.post<AuthResponse>(
       "/api/v1/auth/register",
       data,
     );
@@ -62,12 +21,21 @@ export const authApi = {
 
   // Login user
   login: async (data: LoginRequest) => {
-    const response = await apiClient.post<AuthResponse>(
+    const response = await publicClient.post<AuthResponse>(
       "/api/v1/auth/login",
       data,
     );
     return response.data;
   },
+
+  // Exchange a refresh token for a new access token
+  refresh: async (data: RefreshTokenRequest) => {
+    const response = await publicClient.post<AuthResponse>(
+      "/api/v1/auth/refresh",
+      data,
+    );
+    return response.data;
+  },
 };
 
 // User API methods
@@ -112,10 +80,5 @@ export const adminApi = {
   },
 };
 
-// Utility function to handle API errors consistently
-export const handleApiError = (error: unknown): string => {
-  if (axios.isAxiosError(error)) {
-    return error.response?.data || error.message;
-  }
-  return "An unexpected error occurred. Please try again.";
-};
+// Re-exported so existing callers keep importing it from here
+export { handleApiError } from "@/lib/api/clientFactory";
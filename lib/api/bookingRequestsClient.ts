@@ -1,70 +1,158 @@
-import { BookingUpdate, fetchBookingRequests } from '@/interfaces/bookingUpdate';
-import {useBookingStore} from '../store/bookingStore';
-import axios from "axios";
-import { useAuthStore } from '../store/authStore';
-
-const API_BASE_URL =process.env.AUTH_SERVICE_API_URL2 || "http://localhost:3004";
-export const apiClient = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    "Content-Type": "application/json",
-  },
-  timeout: 10000, // 10 second timeout
-});
-
-// Request interceptor to automatically add authorization header
- apiClient.interceptors.request.use(
-  (config) => {
-    const { token } = useAuthStore.getState();
-
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
-    }
-
-    return config;
-  },
-  (error) => {
-    return Promise.reject(error);
-  },
-);
-
-// Response interceptor for global error handling and token management
-apiClient.interceptors.response.use(
-  (response) => {
-    return response;
-  },
-  (error) => {
-    const { logout } = useAuthStore.getState();
-
-    // Handle 401 Unauthorized
-    if (error.response?.status === 401) {
-      logout();
-
-      if (typeof window !== "undefined") {
-        window.location.href = "/login";
-      }
-    }
-
-    return Promise.reject(error);
-  },
-);
+import { BookingAssignment, BookingRequestPayload, BookingUpdate } from '@/interfaces/bookingUpdate';
+import { bookingAPI } from '@/app/utils/api';
+import {
+  Booking,
+  BookingSource,
+  fromBookingRequestPayload,
+  fromBookingServicePayload,
+} from '../models/booking';
+import { assertTransition } from '../models/bookingStatus';
+import {
+  BookingPage,
+  BookingQuery,
+  DEFAULT_BOOKING_QUERY,
+  matchesBookingQuery,
+  sortBookings,
+  toBookingSearchParams,
+} from '../models/bookingQuery';
+import { vehicleApi } from './addVehicleClient';
+import { API_BASE_URLS, ApiError, createApiClient } from './clientFactory';
+
+export const apiClient = createApiClient({ baseURL: API_BASE_URLS.bookingRequests });
 
 //booking request Updates API methods
 export const bookingRequestsApi = {
-    // Fetch all booking requests
-    fetchBookingRequests: async () => {
-       const response = await apiClient.get<fetchBookingRequests[]>(`/api/bookings`);
-       console.log("Booking Requests Response:", response.data);
-        return response.data; // directly return the array
-},
-
-    updateBookingStatus: async (data: BookingUpdate) => {
-    const response = await apiClient.patch<{ message: string; updatedBooking: fetchBookingRequests }>(
-    `/api/bookings/${data.bookingId}/status`,
-    { newStatus: data.newStatus }
-     );
-     return response.data.updatedBooking;
-     },
+    // Fetch the employee queue: requests plus bookings customers made on /booking
+    fetchBookingRequests: async (): Promise<Booking[]> => {
+        const [requests, serviceBookings] = await Promise.allSettled([
+            apiClient.get<BookingRequestPayload[]>(`/api/bookings`),
+            bookingAPI.getBookings(),
+        ]);
+
+        if (requests.status === "rejected" && serviceBookings.status === "rejected") {
+            throw requests.reason;
+        }
+        if (requests.status === "rejected") {
+            console.error("Failed to fetch booking requests:", requests.reason);
+        }
+        if (serviceBookings.status === "rejected") {
+            console.error("Failed to fetch service bookings:", serviceBookings.reason);
+        }
+
+        return [
+            ...(requests.status === "fulfilled"
+                ? requests.value.data.map(fromBookingRequestPayload)
+                : []),
+            ...(serviceBookings.status === "fulfilled"
+                ? serviceBookings.value.map((b) => fromBookingServicePayload(b))
+                : []),
+        ];
+    },
+
+    // Filtered, sorted page across both backends, like the queue fetchBookingRequests loads.
+    // Booking requests are searched on the server; booking service bookings in the client.
+    searchBookings: async (query: Partial<BookingQuery>): Promise<BookingPage<Booking>> => {
+        const { sort, order, page, pageSize } = { ...DEFAULT_BOOKING_QUERY, ...query };
+
+        // Requests are read from the top so the merged list pages correctly
+        const params = toBookingSearchParams({ ...query, page: 1 });
+        params.set("pageSize", String(page * pageSize));
+
+        const [requests, serviceBookings] = await Promise.allSettled([
+            apiClient.get<BookingPage<BookingRequestPayload>>(`/api/bookings/search`, { params }),
+            bookingAPI.getBookings({
+                status: query.status?.join(","),
+                date_from: query.from,
+                date_to: query.to,
+            }),
+        ]);
+
+        if (requests.status === "rejected" && serviceBookings.status === "rejected") {
+            throw requests.reason;
+        }
+        if (requests.status === "rejected") {
+            console.error("Failed to search booking requests:", requests.reason);
+        }
+        if (serviceBookings.status === "rejected") {
+            console.error("Failed to fetch service bookings:", serviceBookings.reason);
+        }
+
+        const requestPage = requests.status === "fulfilled" ? requests.value.data : null;
+        const matchingServiceBookings =
+            serviceBookings.status === "fulfilled"
+                ? serviceBookings.value
+                      .map((b) => fromBookingServicePayload(b))
+                      .filter((b) => matchesBookingQuery(b, query))
+                : [];
+
+        const merged = sortBookings(
+            [...(requestPage?.items.map(fromBookingRequestPayload) ?? []), ...matchingServiceBookings],
+            sort,
+            order
+        );
+        return {
+            items: merged.slice((page - 1) * pageSize, page * pageSize),
+            total: (requestPage?.total ?? 0) + matchingServiceBookings.length,
+            page,
+            pageSize,
+        };
+    },
+
+    // Asks the backend the booking came from; null if it has no such booking
+    getBookingById: async (bookingId: string, source: BookingSource): Promise<Booking | null> => {
+        try {
+            if (source === "booking-requests") {
+                const response = await apiClient.get<BookingRequestPayload>(`/api/bookings/${bookingId}`);
+                return fromBookingRequestPayload(response.data);
+            }
+
+            const payload = await bookingAPI.getBooking(bookingId);
+            // The booking service only stores the vehicle id
+            const vehicle = payload.vehicle_id
+                ? await vehicleApi.getVehicle(payload.vehicle_id).catch((err) => {
+                      console.error("Failed to fetch booking vehicle:", err);
+                      return null;
+                  })
+                : null;
+            return fromBookingServicePayload(payload, vehicle ? [vehicle] : []);
+        } catch (err) {
+            if (err instanceof ApiError && err.status === 404) return null;
+            throw err;
+        }
+    },
+
+    // Status changes go back to whichever backend owns the booking
+    updateBookingStatus: async (data: BookingUpdate): Promise<Booking> => {
+        if (data.currentStatus) {
+            assertTransition(data.currentStatus, data.newStatus);
+        }
+
+        if (data.source === "booking-service") {
+            const updated = await bookingAPI.updateBookingStatus(data.bookingId, data.newStatus, {
+                reason: data.reason,
+                changedBy: data.changedBy?.name,
+            });
+            return fromBookingServicePayload(updated);
+        }
+
+        const response = await apiClient.patch<{ message: string; updatedBooking: BookingRequestPayload }>(
+            `/api/bookings/${data.bookingId}/status`,
+            { newStatus: data.newStatus, reason: data.reason, changedBy: data.changedBy }
+        );
+        return fromBookingRequestPayload(response.data.updatedBooking);
+    },
 
+    // Like status changes, assignments go to the backend that owns the booking
+    assignBooking: async (data: BookingAssignment): Promise<Booking> => {
+        if (data.source === "booking-service") {
+            const updated = await bookingAPI.assignBooking(data.bookingId, data.assignee?.id ?? null);
+            return fromBookingServicePayload(updated);
+        }
 
+        const response = await apiClient.patch<{ message: string; updatedBooking: BookingRequestPayload }>(
+            `/api/bookings/${data.bookingId}/assign`,
+            { assignedTo: data.assignee }
+        );
+        return fromBookingRequestPayload(response.data.updatedBooking);
+    },
 };
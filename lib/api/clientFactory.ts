@@ -0,0 +1,224 @@
+import { useAuthStore } from "@/lib/store/authStore";
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  InternalAxiosRequestConfig,
+} from "axios";
+
+/**
+ * Base URLs for every backend the frontend talks to.
+ * Service modules pick their entry instead of hard-coding a URL.
+ */
+export const API_BASE_URLS = {
+  auth: process.env.AUTH_SERVICE_API_URL || "http://localhost:8080",
+  vehicle: process.env.AUTH_SERVICE_API_URL2 || "http://localhost:3004",
+  bookingRequests: process.env.AUTH_SERVICE_API_URL2 || "http://localhost:3004",
+  booking: process.env.BOOKING_SERVICE_API_URL || "http://127.0.0.1:8000/api",
+  projects: process.env.AUTH_SERVICE_API_URL2 || "http://localhost:3004",
+  timeLogs: process.env.AUTH_SERVICE_API_URL2 || "http://localhost:3004",
+  inventory: process.env.AUTH_SERVICE_API_URL2 || "http://localhost:3004",
+  // Photo uploads; defaults to the app's own /api/uploads route in development.
+  // Read in the browser, so it needs the NEXT_PUBLIC_ prefix.
+  uploads: process.env.NEXT_PUBLIC_UPLOAD_SERVICE_URL || "",
+  // Server-Sent Events; `npm run realtime:mock` serves it in development
+  realtime:
+    process.env.NEXT_PUBLIC_REALTIME_SERVICE_URL || "http://localhost:4010",
+};
+
+/**
+ * Error shape every client rejects with, whatever the backend returned
+ */
+export class ApiError extends Error {
+  status?: number;
+  code?: string;
+  requestId?: string;
+  details?: unknown;
+
+  constructor(
+    message: string,
+    options: {
+      status?: number;
+      code?: string;
+      requestId?: string;
+      details?: unknown;
+    } = {},
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = options.status;
+    this.code = options.code;
+    this.requestId = options.requestId;
+    this.details = options.details;
+  }
+}
+
+export type ErrorNormalizer = (error: AxiosError) => ApiError;
+
+/**
+ * Default normaliser: understands plain-text bodies (auth service)
+ * and `{ message }` / `{ error }` JSON bodies (vehicle and booking services)
+ */
+export const defaultErrorNormalizer: ErrorNormalizer = (error) => {
+  const data = error.response?.data as
+    string | { message?: string; error?: string; code?: string } | undefined;
+
+  let message = error.message;
+  if (typeof data === "string" && data.trim()) {
+    message = data;
+  } else if (data && typeof data === "object") {
+    message = data.message || data.error || message;
+  }
+
+  return new ApiError(message, {
+    status: error.response?.status,
+    code: typeof data === "object" ? data?.code : error.code,
+    requestId: error.config?.headers?.["X-Request-ID"] as string | undefined,
+    details: data,
+  });
+};
+
+interface ApiClientOptions {
+  baseURL: string;
+  timeout?: number;
+  // Send the bearer token and log out on 401 (default: true)
+  withAuth?: boolean;
+  normalizeError?: ErrorNormalizer;
+}
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & {
+  _retried?: boolean;
+};
+
+// Shared by every client so concurrent 401s trigger a single refresh call
+let refreshPromise: Promise<string> | null = null;
+
+/**
+ * Exchanges the stored refresh token for a new access token.
+ * Callers arriving while a refresh is in flight wait for the same promise.
+ */
+export function refreshSession(): Promise<string> {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const { refreshToken, setTokens } = useAuthStore.getState();
+      if (!refreshToken) {
+        throw new ApiError("Session expired. Please sign in again.", {
+          status: 401,
+        });
+      }
+
+      // Imported lazily: authClient is itself built from this factory
+      const { authApi } = await import("./authClient");
+      const response = await authApi.refresh({ refreshToken });
+      setTokens(response.accessToken, response.refreshToken);
+      return response.accessToken;
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
+
+// Drops the session and sends the user to login, remembering where they were
+export function expireSession() {
+  useAuthStore.getState().logout();
+
+  if (typeof window !== "undefined" && window.location.pathname !== "/login") {
+    const redirect = encodeURIComponent(
+      window.location.pathname + window.location.search,
+    );
+    window.location.href = `/login?redirect=${redirect}`;
+  }
+}
+
+// randomUUID only exists on secure origins, so plain http falls back
+export const generateRequestId = () => {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+/**
+ * Creates an axios instance with the interceptors shared by all services
+ *
+ * - Attaches the bearer token from the auth store
+ * - Tags each request with an X-Request-ID header
+ * - On 401, refreshes the access token once and retries the request;
+ *   logs out and redirects to /login if the refresh fails
+ * - Rejects with an ApiError built by the configured normaliser
+ */
+export function createApiClient({
+  baseURL,
+  timeout = 10000, // 10 second timeout
+  withAuth = true,
+  normalizeError = defaultErrorNormalizer,
+}: ApiClientOptions): AxiosInstance {
+  const client = axios.create({
+    baseURL,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    timeout,
+  });
+
+  // Request interceptor to add request id and authorization header
+  client.interceptors.request.use(
+    (config) => {
+      config.headers["X-Request-ID"] = generateRequestId();
+
+      if (withAuth) {
+        const { token } = useAuthStore.getState();
+
+        if (token) {
+          config.headers.Authorization = `Bearer ${token}`;
+        }
+      }
+
+      return config;
+    },
+    (error) => {
+      return Promise.reject(error);
+    },
+  );
+
+  // Response interceptor for global error handling and token management
+  client.interceptors.response.use(
+    (response) => {
+      return response;
+    },
+    async (error: AxiosError) => {
+      const original = error.config as RetriableRequestConfig | undefined;
+
+      // Handle 401 Unauthorized
+      if (withAuth && error.response?.status === 401 && original) {
+        if (!original._retried && useAuthStore.getState().refreshToken) {
+          original._retried = true;
+          try {
+            const token = await refreshSession();
+            original.headers.Authorization = `Bearer ${token}`;
+            return client(original);
+          } catch {
+            // Fall through to logout below
+          }
+        }
+
+        expireSession();
+      }
+
+      return Promise.reject(normalizeError(error));
+    },
+  );
+
+  return client;
+}
+
+// Utility function to turn any thrown value into a user-facing message
+export const handleApiError = (error: unknown): string => {
+  if (error instanceof ApiError) {
+    return error.message;
+  }
+  if (axios.isAxiosError(error)) {
+    return defaultErrorNormalizer(error).message;
+  }
+  return "An unexpected error occurred. Please try again.";
+};
@@ -0,0 +1,91 @@
+import { API_BASE_URLS, createApiClient } from "./clientFactory";
+
+export const apiClient = createApiClient({ baseURL: API_BASE_URLS.inventory });
+
+// Stock changes return the reservation together with the stock level it moved
+interface ReservationResult {
+  reservation: PartReservationResponse;
+  stock: StockLevelResponse;
+}
+
+// Inventory API methods
+export const inventoryApi = {
+  getParts: async () => {
+    const response = await apiClient.get<PartResponse[]>(
+      "/api/inventory/parts",
+    );
+    return response.data;
+  },
+
+  addPart: async (data: PartRequest) => {
+    const response = await apiClient.post<PartResponse>(
+      "/api/inventory/parts",
+      data,
+    );
+    return response.data;
+  },
+
+  updatePart: async (partId: string, data: PartUpdateRequest) => {
+    const response = await apiClient.patch<PartResponse>(
+      `/api/inventory/parts/${partId}`,
+      data,
+    );
+    return response.data;
+  },
+
+  // Every part at every center unless narrowed to one center
+  getStockLevels: async (params: InventoryQuery = {}) => {
+    const response = await apiClient.get<StockLevelResponse[]>(
+      "/api/inventory/stock",
+      { params },
+    );
+    return response.data;
+  },
+
+  // Adds delivered parts to a center's stock
+  receiveStock: async (data: StockReceiptRequest) => {
+    const response = await apiClient.post<StockLevelResponse>(
+      "/api/inventory/stock/receive",
+      data,
+    );
+    return response.data;
+  },
+
+  getReservations: async (params: PartReservationQuery = {}) => {
+    const response = await apiClient.get<PartReservationResponse[]>(
+      "/api/inventory/reservations",
+      { params },
+    );
+    return response.data;
+  },
+
+  // Holds parts for a project; rejected with 409 when not enough are available
+  reservePart: async (data: PartReservationRequest) => {
+    const response = await apiClient.post<ReservationResult>(
+      "/api/inventory/reservations",
+      data,
+    );
+    return response.data;
+  },
+
+  // Returns reserved parts to available stock
+  releaseReservation: async (reservationId: string) => {
+    const response = await apiClient.post<ReservationResult>(
+      `/api/inventory/reservations/${reservationId}/release`,
+    );
+    return response.data;
+  },
+
+  // Parts were fitted: removes them from stock for good and records the
+  // price they are billed at
+  consumeReservation: async (
+    reservationId: string,
+    pricing: Required<Pick<PartReservationResponse, "partName" | "unitPrice">>,
+  ) => {
+    const response = await apiClient.post<ReservationResult>(
+      `/api/inventory/reservations/${reservationId}/consume`,
+      pricing,
+    );
+    return response.data;
+  },
+};
@@ -0,0 +1,135 @@
+import type { Booking } from "../models/booking";
+import { API_BASE_URLS, createApiClient } from "./clientFactory";
+
+export const apiClient = createApiClient({ baseURL: API_BASE_URLS.projects });
+
+// Project API methods
+export const projectApi = {
+  // A project tracks the work on an accepted booking
+  createFromBooking: async (
+    booking: Booking,
+    projectType: ProjectRequest["projectType"] = "Service",
+  ) => {
+    if (!booking.vehicleId) {
+      throw new Error("Booking has no vehicle to attach a project to");
+    }
+
+    const data: ProjectRequest = {
+      vehicleId: booking.vehicleId,
+      appointmentId: booking.bookingId,
+      customerId: booking.customerId ?? "",
+      serviceType: booking.serviceName,
+      projectType,
+      notes: booking.notes,
+      assignedTo: booking.assignedTo ?? null,
+    };
+    const response = await apiClient.post<{
+      message: string;
+      project: ProjectResponse;
+    }>("/api/projects", data);
+    return response.data.project;
+  },
+
+  getProjects: async (params: ProjectQuery = {}) => {
+    const response = await apiClient.get<ProjectResponse[]>("/api/projects", {
+      params,
+    });
+    return response.data;
+  },
+
+  getProject: async (projectId: string) => {
+    const response = await apiClient.get<ProjectResponse>(
+      `/api/projects/${projectId}`,
+    );
+    return response.data;
+  },
+
+  updateProjectStatus: async (
+    projectId: string,
+    status: ProjectResponse["status"],
+  ) => {
+    const response = await apiClient.patch<ProjectResponse>(
+      `/api/projects/${projectId}/status`,
+      { status },
+    );
+    return response.data;
+  },
+
+  addNote: async (projectId: string, data: ProjectNoteRequest) => {
+    const response = await apiClient.post<ProjectResponse>(
+      `/api/projects/${projectId}/notes`,
+      data,
+    );
+    return response.data;
+  },
+
+  // Customer-visible update; upload the photos with uploadApi first
+  addProgressUpdate: async (
+    projectId: string,
+    data: ProjectProgressUpdateRequest,
+  ) => {
+    const response = await apiClient.post<ProjectResponse>(
+      `/api/projects/${projectId}/progress`,
+      data,
+    );
+    return response.data;
+  },
+
+  updateProject: async (projectId: string, data: ProjectUpdateRequest) => {
+    const response = await apiClient.patch<ProjectResponse>(
+      `/api/projects/${projectId}`,
+      data,
+    );
+    return response.data;
+  },
+
+  // Pass null to unassign
+  assignProject: async (
+    projectId: string,
+    assignee: ProjectAssignee | null,
+  ) => {
+    const response = await apiClient.patch<ProjectResponse>(
+      `/api/projects/${projectId}/assign`,
+      { assignedTo: assignee },
+    );
+    return response.data;
+  },
+
+  // Saves the modification quote as a draft (a rejected quote becomes a new draft)
+  saveQuote: async (projectId: string, data: ProjectQuoteRequest) => {
+    const response = await apiClient.put<ProjectResponse>(
+      `/api/projects/${projectId}/quote`,
+      data,
+    );
+    return response.data;
+  },
+
+  // Sends the draft to the customer for approval
+  sendQuote: async (projectId: string) => {
+    const response = await apiClient.post<ProjectResponse>(
+      `/api/projects/${projectId}/quote/send`,
+    );
+    return response.data;
+  },
+
+  // Customer's approval or rejection of a sent quote
+  respondToQuote: async (
+    projectId: string,
+    data: ProjectQuoteDecisionRequest,
+  ) => {
+    const response = await apiClient.post<ProjectResponse>(
+      `/api/projects/${projectId}/quote/respond`,
+      data,
+    );
+    return response.data;
+  },
+
+  // Marks the project completed and stamps its end date
+  closeProject: async (projectId: string, notes?: string) => {
+    const response = await apiClient.patch<ProjectResponse>(
+      `/api/projects/${projectId}/close`,
+      { notes },
+    );
+    return response.data;
+  },
+};
@@ -0,0 +1,35 @@
+import { API_BASE_URLS, createApiClient } from "./clientFactory";
+
+export const apiClient = createApiClient({ baseURL: API_BASE_URLS.timeLogs });
+
+// Time log API methods
+export const timeLogApi = {
+  getEntries: async (params: TimeEntryQuery = {}) => {
+    const response = await apiClient.get<TimeEntryResponse[]>(
+      "/api/time-entries",
+      { params },
+    );
+    return response.data;
+  },
+
+  // Starting a timer is a create with endedAt: null
+  createEntry: async (data: TimeEntryRequest) => {
+    const response = await apiClient.post<TimeEntryResponse>(
+      "/api/time-entries",
+      data,
+    );
+    return response.data;
+  },
+
+  updateEntry: async (entryId: string, data: TimeEntryUpdateRequest) => {
+    const response = await apiClient.patch<TimeEntryResponse>(
+      `/api/time-entries/${entryId}`,
+      data,
+    );
+    return response.data;
+  },
+
+  deleteEntry: async (entryId: string) => {
+    await apiClient.delete(`/api/time-entries/${entryId}`);
+  },
+};
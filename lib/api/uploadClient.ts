@@ -0,0 +1,23 @@
+import { API_BASE_URLS, createApiClient } from "./clientFactory";
+
+// Uploads can be slow on mobile connections
+export const apiClient = createApiClient({
+  baseURL: API_BASE_URLS.uploads,
+  timeout: 60000,
+});
+
+// Upload API methods
+export const uploadApi = {
+  // Stores one photo and returns where it can be viewed
+  uploadPhoto: async (file: File) => {
+    const form = new FormData();
+    form.append("file", file);
+
+    // Clear the client's JSON default so the browser sends multipart with
+    // its boundary; under a JSON type axios would stringify the form
+    const response = await apiClient.post<ProjectPhoto>("/api/uploads", form, {
+      headers: { "Content-Type": false },
+    });
+    return response.data;
+  },
+};
@@ -0,0 +1,88 @@
+import type { DayAvailability } from "@/app/types";
+import { bookingAPI } from "@/app/utils/api";
+import { handleApiError } from "@/lib/api/clientFactory";
+import {
+  DATE_FORMAT,
+  EARLIEST_SEARCH_DAYS,
+  findEarliestAvailable,
+  getToday,
+} from "@/lib/models/availabilityCalendar";
+import dayjs from "dayjs";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * Free slot counts per day for a center and set of services between `from`
+ * and `to`. Nothing is fetched until a center and at least one service are
+ * chosen; responses to superseded ranges are dropped.
+ */
+export function useAvailabilityCalendar(
+  centerId: number | null,
+  serviceIds: number[],
+  from: string,
+  to: string,
+) {
+  const [result, setResult] = useState<{
+    key: string;
+    days: DayAvailability[];
+  } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+
+  // Refetch on value changes, not on every new array
+  const services = serviceIds.join(",");
+  const key =
+    centerId && services ? `${centerId}|${services}|${from}|${to}` : null;
+
+  const reload = useCallback(async () => {
+    if (!centerId || !services) return;
+    const requestId = ++latestRequest.current;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const calendar = await bookingAPI.getAvailabilityCalendar(
+        centerId,
+        from,
+        to,
+        services.split(",").map(Number),
+      );
+      if (requestId === latestRequest.current) {
+        setResult({
+          key: `${centerId}|${services}|${from}|${to}`,
+          days: calendar.days,
+        });
+      }
+    } catch (err) {
+      console.error("Failed to load availability calendar:", err);
+      if (requestId === latestRequest.current) setError(handleApiError(err));
+    } finally {
+      if (requestId === latestRequest.current) setIsLoading(false);
+    }
+  }, [centerId, services, from, to]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Looks past the visible range; resolves to null when nothing is free
+  const findEarliest = useCallback(async () => {
+    if (!centerId || !services) return null;
+    const today = getToday();
+    const calendar = await bookingAPI.getAvailabilityCalendar(
+      centerId,
+      today,
+      dayjs(today).add(EARLIEST_SEARCH_DAYS, "day").format(DATE_FORMAT),
+      services.split(",").map(Number),
+    );
+    return findEarliestAvailable(calendar.days, today);
+  }, [centerId, services]);
+
+  return {
+    // Only counts for the current selection, never a previous one
+    days: result && result.key === key ? result.days : [],
+    isLoading: !!key && isLoading,
+    error: key ? error : null,
+    reload,
+    findEarliest,
+  };
+}
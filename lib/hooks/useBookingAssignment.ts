@@ -0,0 +1,41 @@
+import { bookingRequestsApi } from "@/lib/api/bookingRequestsClient";
+import { projectApi } from "@/lib/api/projectClient";
+import { Assignee, Booking } from "@/lib/models/booking";
+import { findProjectForBooking } from "@/lib/models/project";
+import { useBookingActions } from "@/lib/store/bookingStore";
+import { useProjectActions, useProjectStore } from "@/lib/store/projectsStore";
+import { useCallback } from "react";
+
+/**
+ * Assigns a booking (and the project spawned from it, if any) to an
+ * employee, or returns it to the unassigned pool with null.
+ */
+export function useBookingAssignment() {
+  const { upsertBooking } = useBookingActions();
+  const { upsertProject } = useProjectActions();
+
+  return useCallback(
+    async (booking: Booking, assignee: Assignee | null) => {
+      const updated = await bookingRequestsApi.assignBooking({
+        bookingId: booking.bookingId,
+        source: booking.source,
+        assignee,
+      });
+      // Keep vehicle details the adapter can't rebuild from the response
+      upsertBooking({
+        ...updated,
+        vehicle: updated.vehicle ?? booking.vehicle,
+      });
+
+      const project = findProjectForBooking(
+        useProjectStore.getState().projects,
+        booking.bookingId,
+      );
+      if (project) {
+        upsertProject(await projectApi.assignProject(project._id, assignee));
+      }
+      return updated;
+    },
+    [upsertBooking, upsertProject],
+  );
+}
@@ -0,0 +1,40 @@
+import { handleApiError } from "@/lib/api/clientFactory";
+import type { BookingSource } from "@/lib/models/booking";
+import { useBookingStore } from "@/lib/store/bookingStore";
+import { useCallback, useEffect, useState } from "react";
+
+/**
+ * One booking by id, read from the booking store and fetched from its
+ * source on a miss, so detail pages also work after a refresh or from a
+ * shared link
+ */
+export function useBookingById(
+  bookingId: string,
+  source?: BookingSource | null,
+) {
+  const booking = useBookingStore((state) =>
+    state.bookings.find((b) => b.bookingId === bookingId),
+  );
+  const getBookingById = useBookingStore((state) => state.getBookingById);
+  const [isLoading, setIsLoading] = useState(!booking);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await getBookingById(bookingId, source);
+    } catch (err) {
+      console.error("Failed to load booking:", err);
+      setError(handleApiError(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [bookingId, source, getBookingById]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return { booking, isLoading, error, reload: load };
+}
@@ -0,0 +1,85 @@
+import { projectApi } from "@/lib/api/projectClient";
+import { Booking } from "@/lib/models/booking";
+import {
+  findProjectForBooking,
+  getProjectStatusForBooking,
+} from "@/lib/models/project";
+import {
+  useProjectActions,
+  useProjectStore,
+  useProjects,
+} from "@/lib/store/projectsStore";
+import { useCallback, useEffect } from "react";
+
+/**
+ * Loads projects into the project store and keeps each booking's project
+ * in step with it: accepting a booking creates the project (as does any
+ * later move if that failed), status changes are mirrored, completing the
+ * booking closes it and cancelling cancels it.
+ * Pass a customerId to load only that customer's projects.
+ */
+export function useBookingProjects({
+  customerId,
+}: { customerId?: string } = {}) {
+  const { projects, isLoading, error } = useProjects();
+  const { setProjects, upsertProject, setLoading, setError } =
+    useProjectActions();
+
+  useEffect(() => {
+    const fetchProjects = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setProjects(
+          await projectApi.getProjects(customerId ? { customerId } : {}),
+        );
+      } catch (err) {
+        console.error("Failed to fetch projects:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to fetch projects",
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProjects();
+  }, [customerId, setProjects, setLoading, setError]);
+
+  // Call with the booking as it is after a status change
+  const syncProject = useCallback(
+    async (booking: Booking) => {
+      const existing = findProjectForBooking(
+        useProjectStore.getState().projects,
+        booking.bookingId,
+      );
+
+      const status = getProjectStatusForBooking(booking.currentStatus);
+      if (!status) return existing ?? null;
+
+      let project = existing;
+      if (!project) {
+        // Work that never got a project has nothing to cancel
+        if (status === "Cancelled") return null;
+        project = await projectApi.createFromBooking(booking);
+        upsertProject(project);
+      }
+      if (status === project.status) return project;
+
+      const updated =
+        status === "Completed"
+          ? await projectApi.closeProject(project._id)
+          : await projectApi.updateProjectStatus(project._id, status);
+      upsertProject(updated);
+      return updated;
+    },
+    [upsertProject],
+  );
+
+  const getProjectForBooking = useCallback(
+    (bookingId: string) => findProjectForBooking(projects, bookingId),
+    [projects],
+  );
+
+  return { projects, isLoading, error, syncProject, getProjectForBooking };
+}
@@ -0,0 +1,55 @@
+import { bookingRequestsApi } from "@/lib/api/bookingRequestsClient";
+import { handleApiError } from "@/lib/api/clientFactory";
+import type { Booking } from "@/lib/models/booking";
+import {
+  BookingPage,
+  BookingQuery,
+  parseBookingSearchParams,
+  toBookingSearchParams,
+} from "@/lib/models/bookingQuery";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * Runs a booking query against both booking backends and refetches when
+ * it changes.
+ * Responses to superseded queries are dropped, so fast typing can't show
+ * stale results. Nothing is fetched while `enabled` is false.
+ */
+export function useBookingSearch(query: BookingQuery, enabled = true) {
+  const [result, setResult] = useState<BookingPage<Booking> | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+
+  // Refetch on value changes, not on every new query object
+  const key = toBookingSearchParams(query).toString();
+
+  const reload = useCallback(async () => {
+    const requestId = ++latestRequest.current;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const page = await bookingRequestsApi.searchBookings(
+        parseBookingSearchParams(new URLSearchParams(key)),
+      );
+      if (requestId === latestRequest.current) setResult(page);
+    } catch (err) {
+      console.error("Failed to search bookings:", err);
+      if (requestId === latestRequest.current) setError(handleApiError(err));
+    } finally {
+      if (requestId === latestRequest.current) setIsLoading(false);
+    }
+  }, [key]);
+
+  useEffect(() => {
+    if (enabled) reload();
+  }, [enabled, reload]);
+
+  return {
+    bookings: result?.items ?? [],
+    total: result?.total ?? 0,
+    isLoading,
+    error,
+    reload,
+  };
+}
@@ -0,0 +1,39 @@
+import { useNow } from "./useNow";
+
+export interface Countdown {
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  // Milliseconds left, never below zero
+  remaining: number;
+  isPast: boolean;
+}
+
+const toCountdown = (remaining: number): Countdown => {
+  const clamped = Math.max(remaining, 0);
+  const totalSeconds = Math.floor(clamped / 1000);
+  return {
+    days: Math.floor(totalSeconds / 86400),
+    hours: Math.floor((totalSeconds % 86400) / 3600),
+    minutes: Math.floor((totalSeconds % 3600) / 60),
+    seconds: totalSeconds % 60,
+    remaining: clamped,
+    isPast: remaining <= 0,
+  };
+};
+
+/**
+ * Time left until `target`, re-rendering every `intervalMs`.
+ * Returns null when there is no target.
+ */
+export function useCountdown(
+  target: string | number | Date | null | undefined,
+  intervalMs = 1000,
+): Countdown | null {
+  const targetMs = target == null ? null : new Date(target).getTime();
+  const now = useNow(intervalMs, targetMs !== null);
+
+  if (targetMs === null || Number.isNaN(targetMs)) return null;
+  return toCountdown(targetMs - now);
+}
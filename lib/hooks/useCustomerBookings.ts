@@ -0,0 +1,48 @@
+import { bookingAPI } from "@/app/utils/api";
+import { vehicleApi } from "@/lib/api/addVehicleClient";
+import { fromBookingServicePayload } from "@/lib/models/booking";
+import { useAuth } from "@/lib/store/authStore";
+import { useBookingActions, useBookings } from "@/lib/store/bookingStore";
+import { useVehicleActions } from "@/lib/store/vehicleStore";
+import { useCallback, useEffect } from "react";
+
+/**
+ * Loads the signed-in customer's bookings (with their vehicles attached)
+ * into the booking store and exposes them with a reload function.
+ */
+export function useCustomerBookings() {
+  const { user } = useAuth();
+  const { bookings, isLoading, error } = useBookings();
+  const { setBookings, setLoading, setError } = useBookingActions();
+  const { setVehicles } = useVehicleActions();
+
+  const reload = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const [payloads, vehicles] = await Promise.all([
+        bookingAPI.getBookings({ customer_id: user.id }),
+        vehicleApi.getVehicles(),
+      ]);
+      setVehicles(vehicles);
+      setBookings(
+        payloads
+          .filter((payload) => payload.customer_id === user.id)
+          .map((payload) => fromBookingServicePayload(payload, vehicles)),
+      );
+    } catch (err) {
+      console.error("Failed to load bookings:", err);
+      setError(err instanceof Error ? err.message : "Failed to load bookings");
+    } finally {
+      setLoading(false);
+    }
+  }, [user, setBookings, setLoading, setError, setVehicles]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { bookings, isLoading, error, reload };
+}
@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useRef } from "react";
+
+/**
+ * Wraps `callback` so it only runs once calls have stopped for `delayMs`,
+ * with the arguments of the last call. Pending calls are dropped on unmount.
+ */
+export function useDebouncedCallback<A extends unknown[]>(
+  callback: (...args: A) => void,
+  delayMs = 300,
+) {
+  const callbackRef = useRef(callback);
+  const timer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  useEffect(() => {
+    callbackRef.current = callback;
+  });
+
+  useEffect(() => () => clearTimeout(timer.current), []);
+
+  return useCallback(
+    (...args: A) => {
+      clearTimeout(timer.current);
+      timer.current = setTimeout(() => callbackRef.current(...args), delayMs);
+    },
+    [delayMs],
+  );
+}
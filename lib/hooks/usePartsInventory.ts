@@ -0,0 +1,149 @@
+import { inventoryApi } from "@/lib/api/inventoryClient";
+import {
+  assertCanReserve,
+  findStockLevel,
+  getLowStockItems,
+  Part,
+} from "@/lib/models/inventory";
+import {
+  useInventory,
+  useInventoryActions,
+  useInventoryStore,
+} from "@/lib/store/inventoryStore";
+import { useCallback, useEffect, useMemo } from "react";
+
+/**
+ * Loads the part catalogue and stock levels into the inventory store and
+ * wraps the stock-changing calls so the store follows the server.
+ * Pass a projectId to also load that project's reservations.
+ */
+export function usePartsInventory({ projectId }: { projectId?: string } = {}) {
+  const { parts, stockLevels, reservations, isLoading, error } = useInventory();
+  const {
+    setParts,
+    upsertPart,
+    setStockLevels,
+    upsertStockLevel,
+    setReservations,
+    upsertReservation,
+    setLoading,
+    setError,
+  } = useInventoryActions();
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [fetchedParts, fetchedStock] = await Promise.all([
+        inventoryApi.getParts(),
+        inventoryApi.getStockLevels(),
+      ]);
+      setParts(fetchedParts);
+      setStockLevels(fetchedStock);
+    } catch (err) {
+      console.error("Failed to load inventory:", err);
+      setError(err instanceof Error ? err.message : "Failed to load inventory");
+    } finally {
+      setLoading(false);
+    }
+  }, [setParts, setStockLevels, setLoading, setError]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    inventoryApi
+      .getReservations({ projectId })
+      .then(setReservations)
+      .catch((err) => console.error("Failed to load reservations:", err));
+  }, [projectId, setReservations]);
+
+  const addPart = useCallback(
+    async (data: PartRequest) => {
+      const part = await inventoryApi.addPart(data);
+      upsertPart(part);
+      return part;
+    },
+    [upsertPart],
+  );
+
+  const receiveStock = useCallback(
+    async (data: StockReceiptRequest) => {
+      const stock = await inventoryApi.receiveStock(data);
+      upsertStockLevel(stock);
+      return stock;
+    },
+    [upsertStockLevel],
+  );
+
+  // Throws InsufficientStockError before calling the API when stock is short
+  const reservePart = useCallback(
+    async (part: Part, data: Omit<PartReservationRequest, "partId">) => {
+      assertCanReserve(
+        part,
+        findStockLevel(
+          useInventoryStore.getState().stockLevels,
+          part._id,
+          data.centerId,
+        ),
+        data.quantity,
+      );
+      const { reservation, stock } = await inventoryApi.reservePart({
+        ...data,
+        partId: part._id,
+      });
+      upsertReservation(reservation);
+      upsertStockLevel(stock);
+      return reservation;
+    },
+    [upsertReservation, upsertStockLevel],
+  );
+
+  // Consuming bills the parts at today's catalogue price
+  const settleReservation = useCallback(
+    async (reservationId: string, outcome: "release" | "consume") => {
+      const consume = () => {
+        const { parts, reservations } = useInventoryStore.getState();
+        const partId = reservations.find(
+          (r) => r._id === reservationId,
+        )?.partId;
+        const part = parts.find((p) => p._id === partId);
+        if (!part) throw new Error("This part is no longer in the catalogue");
+        return inventoryApi.consumeReservation(reservationId, {
+          partName: part.name,
+          unitPrice: part.unitPrice,
+        });
+      };
+      const { reservation, stock } =
+        outcome === "release"
+          ? await inventoryApi.releaseReservation(reservationId)
+          : await consume();
+      upsertReservation(reservation);
+      upsertStockLevel(stock);
+      return reservation;
+    },
+    [upsertReservation, upsertStockLevel],
+  );
+
+  const lowStock = useMemo(
+    () => getLowStockItems(parts, stockLevels),
+    [parts, stockLevels],
+  );
+
+  return {
+    parts,
+    stockLevels,
+    reservations,
+    lowStock,
+    isLoading,
+    error,
+    reload,
+    addPart,
+    receiveStock,
+    reservePart,
+    settleReservation,
+  };
+}
@@ -0,0 +1,90 @@
+import { bookingAPI } from "@/app/utils/api";
+import { handleApiError } from "@/lib/api/clientFactory";
+import { Booking, fromBookingServicePayload } from "@/lib/models/booking";
+import { fromMinutes, getBookingDuration } from "@/lib/models/schedule";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * One center's bookings for a day, for the scheduling board. Moves show
+ * straight away and roll back if the booking service rejects them.
+ */
+export function useScheduleBoard(centerId: number | null, date: string) {
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+
+  const reload = useCallback(async () => {
+    if (!centerId) return;
+    const requestId = ++latestRequest.current;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const payloads = await bookingAPI.getBookings({
+        center_id: centerId,
+        date,
+      });
+      if (requestId === latestRequest.current) {
+        setBookings(
+          payloads.map((payload) => fromBookingServicePayload(payload)),
+        );
+      }
+    } catch (err) {
+      console.error("Failed to load schedule:", err);
+      if (requestId === latestRequest.current) setError(handleApiError(err));
+    } finally {
+      if (requestId === latestRequest.current) setIsLoading(false);
+    }
+  }, [centerId, date]);
+
+  useEffect(() => {
+    setBookings([]);
+    reload();
+  }, [reload]);
+
+  /**
+   * Reschedules to `start` (minutes after midnight), keeping the booking's
+   * full duration. Pass `bay` to move it to another bay as well.
+   */
+  const moveBooking = useCallback(
+    async (booking: Booking, start: number, bay?: number | null) => {
+      const startTime = fromMinutes(start);
+      const endTime = fromMinutes(start + getBookingDuration(booking));
+      const moved: Booking = {
+        ...booking,
+        date: `${date}T${startTime}`,
+        startTime,
+        endTime,
+        bay: bay === undefined ? booking.bay : bay,
+      };
+
+      const replace = (next: Booking) =>
+        setBookings((current) =>
+          current.map((b) => (b.bookingId === booking.bookingId ? next : b)),
+        );
+
+      replace(moved);
+      try {
+        const saved = await bookingAPI.rescheduleBooking(booking.bookingId, {
+          date,
+          start_time: startTime,
+          end_time: endTime,
+          bay: moved.bay,
+        });
+        // Keep vehicle details the adapter can't rebuild from the response
+        const updated = {
+          ...fromBookingServicePayload(saved),
+          vehicle: booking.vehicle,
+        };
+        replace(updated);
+        return updated;
+      } catch (err) {
+        replace(booking);
+        throw err;
+      }
+    },
+    [date],
+  );
+
+  return { bookings, isLoading, error, reload, moveBooking };
+}
@@ -0,0 +1,152 @@
+import type { CenterData, ServiceData } from "@/app/types";
+import { bookingAPI } from "@/app/utils/api";
+import { handleApiError } from "@/lib/api/clientFactory";
+import {
+  useCatalog,
+  useCatalogActions,
+  useCatalogStore,
+} from "@/lib/store/catalogStore";
+import { useCallback, useEffect } from "react";
+
+// Placeholder ids for records the server hasn't saved yet
+let nextTempId = -1;
+
+/**
+ * Service centers and services, fetched once into the catalog store and
+ * shared by every screen. The admin operations update the store straight
+ * away and roll it back if the booking service rejects the change.
+ */
+export function useServiceCatalog() {
+  const { centers, services, isLoading, error } = useCatalog();
+  const {
+    setCatalog,
+    setCenters,
+    upsertCenter,
+    removeCenter,
+    setServices,
+    upsertService,
+    removeService,
+    setLoading,
+    setError,
+  } = useCatalogActions();
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [fetchedCenters, fetchedServices] = await Promise.all([
+        bookingAPI.getCenters(),
+        bookingAPI.getServices(),
+      ]);
+      setCatalog(fetchedCenters, fetchedServices);
+    } catch (err) {
+      console.error("Failed to load service catalog:", err);
+      setError(handleApiError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [setCatalog, setLoading, setError]);
+
+  useEffect(() => {
+    const { isLoaded, isLoading } = useCatalogStore.getState();
+    if (!isLoaded && !isLoading) reload();
+  }, [reload]);
+
+  // Applies `change` now; restores the previous lists if `request` fails
+  const optimistic = useCallback(
+    async <T>(change: () => void, request: () => Promise<T>) => {
+      const snapshot = useCatalogStore.getState();
+      change();
+      try {
+        return await request();
+      } catch (err) {
+        setCenters(snapshot.centers);
+        setServices(snapshot.services);
+        throw err;
+      }
+    },
+    [setCenters, setServices],
+  );
+
+  const createCenter = useCallback(
+    async (data: CenterData) => {
+      const tempId = nextTempId--;
+      const saved = await optimistic(
+        () => upsertCenter({ ...data, id: tempId }),
+        () => bookingAPI.createCenter(data),
+      );
+      upsertCenter(saved, tempId);
+      return saved;
+    },
+    [optimistic, upsertCenter],
+  );
+
+  const updateCenter = useCallback(
+    async (centerId: number, data: CenterData) => {
+      const saved = await optimistic(
+        () => upsertCenter({ ...data, id: centerId }),
+        () => bookingAPI.updateCenter(centerId, data),
+      );
+      upsertCenter(saved);
+      return saved;
+    },
+    [optimistic, upsertCenter],
+  );
+
+  const deleteCenter = useCallback(
+    (centerId: number) =>
+      optimistic(
+        () => removeCenter(centerId),
+        () => bookingAPI.deleteCenter(centerId),
+      ),
+    [optimistic, removeCenter],
+  );
+
+  const createService = useCallback(
+    async (data: ServiceData) => {
+      const tempId = nextTempId--;
+      const saved = await optimistic(
+        () => upsertService({ ...data, id: tempId }),
+        () => bookingAPI.createService(data),
+      );
+      upsertService(saved, tempId);
+      return saved;
+    },
+    [optimistic, upsertService],
+  );
+
+  const updateService = useCallback(
+    async (serviceId: number, data: ServiceData) => {
+      const saved = await optimistic(
+        () => upsertService({ ...data, id: serviceId }),
+        () => bookingAPI.updateService(serviceId, data),
+      );
+      upsertService(saved);
+      return saved;
+    },
+    [optimistic, upsertService],
+  );
+
+  const deleteService = useCallback(
+    (serviceId: number) =>
+      optimistic(
+        () => removeService(serviceId),
+        () => bookingAPI.deleteService(serviceId),
+      ),
+    [optimistic, removeService],
+  );
+
+  return {
+    centers,
+    services,
+    isLoading,
+    error,
+    reload,
+    createCenter,
+    updateCenter,
+    deleteCenter,
+    createService,
+    updateService,
+    deleteService,
+  };
+}
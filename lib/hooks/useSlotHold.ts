@@ -0,0 +1,83 @@
+import type { SlotHoldRequest, SlotHoldResponse } from "@/app/types";
+import { bookingAPI } from "@/app/utils/api";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useCountdown } from "./useCountdown";
+
+// Best effort: an unreleased hold still expires on the server
+const releaseQuietly = (hold: SlotHoldResponse) =>
+  bookingAPI
+    .releaseHold(hold.id)
+    .catch((err) => console.error("Failed to release slot hold:", err));
+
+/**
+ * Holds one slot at a time while the customer checks out. A hold is
+ * released when it is replaced, dropped or the page is left; `onExpire`
+ * runs if it times out first.
+ */
+export function useSlotHold(onExpire: () => void) {
+  const [hold, setHold] = useState<SlotHoldResponse | null>(null);
+  const holdRef = useRef<SlotHoldResponse | null>(null);
+  const latestRequest = useRef(0);
+  const onExpireRef = useRef(onExpire);
+  const countdown = useCountdown(hold?.expires_at);
+
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+  });
+
+  const forget = useCallback(() => {
+    holdRef.current = null;
+    setHold(null);
+  }, []);
+
+  // Rejects with the API error (409 when the slot is already taken)
+  const place = useCallback(
+    async (request: SlotHoldRequest) => {
+      const requestId = ++latestRequest.current;
+      const previous = holdRef.current;
+      forget();
+      // Release first, or the new hold can clash with our own old one
+      if (previous) await releaseQuietly(previous);
+
+      const created = await bookingAPI.holdSlot(request);
+      // Another slot was picked while this one was being held
+      if (requestId !== latestRequest.current) {
+        releaseQuietly(created);
+        return null;
+      }
+      holdRef.current = created;
+      setHold(created);
+      return created;
+    },
+    [forget],
+  );
+
+  const release = useCallback(() => {
+    latestRequest.current++;
+    if (holdRef.current) releaseQuietly(holdRef.current);
+    forget();
+  }, [forget]);
+
+  const expired = !!hold && !!countdown?.isPast;
+  useEffect(() => {
+    if (!expired) return;
+    forget();
+    onExpireRef.current();
+  }, [expired, forget]);
+
+  useEffect(
+    () => () => {
+      if (holdRef.current) releaseQuietly(holdRef.current);
+    },
+    [],
+  );
+
+  return {
+    hold,
+    secondsLeft: countdown ? Math.ceil(countdown.remaining / 1000) : 0,
+    place,
+    release,
+    // A successful booking uses the hold up, so there is nothing to release
+    consume: forget,
+  };
+}
@@ -0,0 +1,152 @@
+import { timeLogApi } from "@/lib/api/timeLogClient";
+import {
+  assertNoOverlap,
+  InvalidTimeEntryError,
+  isRunning,
+  TimeEntryOverlapError,
+} from "@/lib/models/timeLog";
+import { useAuth } from "@/lib/store/authStore";
+import { useTimeEntries, useTimeLogActions } from "@/lib/store/timeLogStore";
+import dayjs from "dayjs";
+import { useCallback, useEffect, useMemo } from "react";
+
+// How far back the signed-in employee's own entries are loaded
+const OWN_HISTORY_DAYS = 30;
+
+interface UseTimeLogOptions {
+  // Load everyone's entries on this booking
+  bookingId?: string;
+  // Load the signed-in employee's recent entries (daily totals, overlap checks)
+  withOwnHistory?: boolean;
+}
+
+interface ManualEntry {
+  bookingId: string;
+  projectId?: string;
+  startedAt: string;
+  endedAt: string;
+  note?: string;
+}
+
+/**
+ * Time entries for the signed-in employee and/or one booking, with the
+ * timer and manual-entry actions. Actions throw TimeEntryOverlapError when
+ * the employee already has time logged in that range, and
+ * InvalidTimeEntryError for ranges that make no sense.
+ */
+export function useTimeLog({
+  bookingId,
+  withOwnHistory = false,
+}: UseTimeLogOptions = {}) {
+  const { user } = useAuth();
+  const { entries, isLoading, error } = useTimeEntries();
+  const { mergeEntries, upsertEntry, removeEntry, setLoading, setError } =
+    useTimeLogActions();
+  const employeeId = user?.id;
+
+  const load = useCallback(
+    async (query: TimeEntryQuery) => {
+      setLoading(true);
+      setError(null);
+      try {
+        mergeEntries(await timeLogApi.getEntries(query));
+      } catch (err) {
+        console.error("Failed to load time entries:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to load time entries",
+        );
+      } finally {
+        setLoading(false);
+      }
+    },
+    [mergeEntries, setLoading, setError],
+  );
+
+  useEffect(() => {
+    if (!withOwnHistory || employeeId === undefined) return;
+    load({
+      employeeId,
+      from: dayjs()
+        .subtract(OWN_HISTORY_DAYS, "day")
+        .startOf("day")
+        .toISOString(),
+    });
+  }, [withOwnHistory, employeeId, load]);
+
+  useEffect(() => {
+    if (bookingId) load({ bookingId });
+  }, [bookingId, load]);
+
+  const myEntries = useMemo(
+    () => entries.filter((e) => String(e.employeeId) === String(employeeId)),
+    [entries, employeeId],
+  );
+  const runningEntry = myEntries.find(isRunning) ?? null;
+
+  const requireUser = () => {
+    if (!user) throw new InvalidTimeEntryError("Sign in to log time");
+    return user;
+  };
+
+  const startTimer = async (forBookingId: string, projectId?: string) => {
+    const employee = requireUser();
+    // One timer at a time; it has to be stopped before starting another
+    if (runningEntry) throw new TimeEntryOverlapError(runningEntry);
+
+    const created = await timeLogApi.createEntry({
+      bookingId: forBookingId,
+      projectId,
+      employeeId: employee.id,
+      employeeName: `${employee.firstName} ${employee.lastName}`,
+      startedAt: new Date().toISOString(),
+      endedAt: null,
+    });
+    upsertEntry(created);
+    return created;
+  };
+
+  const stopTimer = async (entryId: string) => {
+    const updated = await timeLogApi.updateEntry(entryId, {
+      endedAt: new Date().toISOString(),
+    });
+    upsertEntry(updated);
+    return updated;
+  };
+
+  const addManualEntry = async (entry: ManualEntry) => {
+    const employee = requireUser();
+    const start = new Date(entry.startedAt).getTime();
+    const end = new Date(entry.endedAt).getTime();
+    if (!(end > start))
+      throw new InvalidTimeEntryError("End time must be after the start time");
+    if (end > Date.now())
+      throw new InvalidTimeEntryError("Time can't be logged in the future");
+
+    assertNoOverlap(myEntries, { ...entry, employeeId: employee.id });
+
+    const created = await timeLogApi.createEntry({
+      ...entry,
+      employeeId: employee.id,
+      employeeName: `${employee.firstName} ${employee.lastName}`,
+    });
+    upsertEntry(created);
+    return created;
+  };
+
+  const deleteEntry = async (entryId: string) => {
+    await timeLogApi.deleteEntry(entryId);
+    removeEntry(entryId);
+  };
+
+  return {
+    entries,
+    myEntries,
+    runningEntry,
+    isLoading,
+    error,
+    startTimer,
+    stopTimer,
+    addManualEntry,
+    deleteEntry,
+  };
+}
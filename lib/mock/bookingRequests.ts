@@ -1,5 +1,7 @@
 // /lib/mock/bookingRequests.ts
 
+import type { BookingStatusChange } from "../models/bookingStatus";
+
 export interface VehicleInfo {
   brand: string;
   model: string;
@@ -8,8 +10,9 @@ export interface VehicleInfo {
   licensePlate: string;
 }
 
+// Raw shape of the dummy data; convert with fromMockBookingRequest
 export interface BookingRequest {
-  history: any;
+  history?: BookingStatusChange[];
   id: string;
   customerId: string;
   vehicleId: string;
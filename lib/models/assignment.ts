@@ -0,0 +1,40 @@
+import type { Assignee, Booking } from "./booking";
+
+export type AssignmentScope = "mine" | "unassigned" | "all";
+
+export const ASSIGNMENT_SCOPE_LABELS: Record<AssignmentScope, string> = {
+  mine: "Assigned to me",
+  unassigned: "Unassigned",
+  all: "All",
+};
+
+export const toAssignee = (user: UserResponse): Assignee => ({
+  id: user.id,
+  name: `${user.firstName} ${user.lastName}`,
+});
+
+export const isAssignedTo = (
+  item: { assignedTo?: Assignee | null },
+  userId?: number | string,
+) =>
+  !!item.assignedTo &&
+  userId !== undefined &&
+  String(item.assignedTo.id) === String(userId);
+
+export const isUnassigned = (item: { assignedTo?: Assignee | null }) =>
+  !item.assignedTo;
+
+export function filterByAssignment(
+  bookings: Booking[],
+  scope: AssignmentScope,
+  userId?: number | string,
+) {
+  switch (scope) {
+    case "mine":
+      return bookings.filter((b) => isAssignedTo(b, userId));
+    case "unassigned":
+      return bookings.filter(isUnassigned);
+    default:
+      return bookings;
+  }
+}
@@ -0,0 +1,60 @@
+import type { DayAvailability } from "@/app/types";
+import dayjs from "dayjs";
+
+export type CalendarView = "month" | "week";
+
+export type SlotDensity = "none" | "low" | "high";
+
+export interface CalendarRange {
+  from: string;
+  to: string;
+  // Every date in the range, in order
+  days: string[];
+}
+
+export const DATE_FORMAT = "YYYY-MM-DD";
+
+// How far ahead "earliest available" searches
+export const EARLIEST_SEARCH_DAYS = 60;
+
+// A day with at least this many free slots counts as wide open
+const HIGH_DENSITY_SLOTS = 5;
+
+export const getToday = () => dayjs().format(DATE_FORMAT);
+
+/**
+ * The dates shown around `anchor`: whole weeks covering its month, or just
+ * its week. Weeks start on Sunday.
+ */
+export function getCalendarRange(
+  anchor: string,
+  view: CalendarView,
+): CalendarRange {
+  const date = dayjs(anchor);
+  const start = (view === "month" ? date.startOf("month") : date).startOf(
+    "week",
+  );
+  const end = (view === "month" ? date.endOf("month") : date).endOf("week");
+
+  const days: string[] = [];
+  for (let day = start; !day.isAfter(end, "day"); day = day.add(1, "day")) {
+    days.push(day.format(DATE_FORMAT));
+  }
+  return { from: days[0], to: days[days.length - 1], days };
+}
+
+// Moves the anchor one month or week forward (1) or back (-1)
+export const shiftAnchor = (anchor: string, view: CalendarView, step: 1 | -1) =>
+  dayjs(anchor).add(step, view).format(DATE_FORMAT);
+
+export const getSlotDensity = (numSlots: number): SlotDensity =>
+  numSlots <= 0 ? "none" : numSlots < HIGH_DENSITY_SLOTS ? "low" : "high";
+
+// First day from `today` onwards with a free slot, or null
+export const findEarliestAvailable = (
+  days: DayAvailability[],
+  today = getToday(),
+) =>
+  days
+    .filter((day) => day.date >= today && day.num_slots > 0)
+    .sort((a, b) => a.date.localeCompare(b.date))[0] ?? null;
@@ -0,0 +1,205 @@
+import type { BookingResponse, Center, Service } from "@/app/types";
+import type { BookingRequestPayload } from "@/interfaces/bookingUpdate";
+import type { BookingRequest } from "@/lib/mock/bookingRequests";
+import type { Vehicle } from "@/lib/store/vehicleStore";
+import type { BookingStatusChange } from "./bookingStatus";
+
+export const BOOKING_STATUSES = [
+  "Pending",
+  "Accepted",
+  "Rejected",
+  "In-Progress",
+  "Hold on",
+  "Completed",
+  "Cancelled",
+  // A backend status we don't recognise; shown but never actionable
+  "Unknown",
+] as const;
+
+export type BookingStatus = (typeof BOOKING_STATUSES)[number];
+
+// Which backend a booking was loaded from; status updates go back to the same one
+export type BookingSource = "booking-service" | "booking-requests";
+
+// Detail links carry the source as ?source=, so a refreshed page knows which backend to ask
+export const parseBookingSource = (
+  value: string | null | undefined,
+): BookingSource | null =>
+  value === "booking-service" || value === "booking-requests" ? value : null;
+
+// Employee responsible for a booking or project
+export interface Assignee {
+  id: number | string;
+  name: string;
+}
+
+/**
+ * Canonical booking used by every screen and store.
+ * Backend payloads are converted with the adapters below.
+ */
+export interface Booking {
+  _id: string;
+  bookingId: string;
+  source: BookingSource;
+  reference?: string;
+  customerId?: string;
+  customerName: string;
+  contactPhone?: string;
+  currentStatus: BookingStatus;
+  // ISO date-time of the appointment start
+  date: string;
+  startTime?: string;
+  endTime?: string;
+  serviceName: string;
+  center?: Center;
+  // The first of `services`
+  service?: Service;
+  services?: Service[];
+  // Service bay at the center, when one has been allocated
+  bay?: number | null;
+  vehicleId?: string;
+  vehicle?: Vehicle;
+  notes?: string;
+  createdAt?: string;
+  // null or missing while the booking sits in the unassigned pool
+  assignedTo?: Assignee | null;
+  // Oldest first
+  statusHistory: BookingStatusChange[];
+}
+
+const STATUS_ALIASES: Record<string, BookingStatus> = {
+  pending: "Pending",
+  accepted: "Accepted",
+  confirmed: "Accepted",
+  rejected: "Rejected",
+  declined: "Rejected",
+  "in-progress": "In-Progress",
+  "in progress": "In-Progress",
+  in_progress: "In-Progress",
+  "hold on": "Hold on",
+  "on hold": "Hold on",
+  on_hold: "Hold on",
+  hold: "Hold on",
+  completed: "Completed",
+  done: "Completed",
+  cancelled: "Cancelled",
+  canceled: "Cancelled",
+};
+
+/**
+ * Maps any backend spelling ("In Progress", "in_progress", "confirmed", ...)
+ * onto the canonical status. Unrecognised values become "Unknown", which
+ * keeps them out of the work queues until the mapping is added.
+ */
+export function normalizeBookingStatus(status?: string | null): BookingStatus {
+  const normalized = STATUS_ALIASES[(status ?? "").trim().toLowerCase()];
+  if (!normalized) {
+    console.warn(`Unknown booking status "${status}"`);
+    return "Unknown";
+  }
+  return normalized;
+}
+
+/**
+ * Every booked service, priced as the center charged it when booked.
+ * Booking requests only ever carry `service`.
+ */
+export const getBookedServices = (booking: Booking): Service[] =>
+  booking.services ?? (booking.service ? [booking.service] : []);
+
+// Booking service (snake_case, numeric ids) → canonical booking
+export function fromBookingServicePayload(
+  payload: BookingResponse,
+  vehicles: Vehicle[] = [],
+): Booking {
+  const id = String(payload.id);
+  // Single-service bookings only carry `service`
+  const services = payload.services?.length
+    ? payload.services
+    : payload.service
+      ? [payload.service]
+      : [];
+  return {
+    _id: id,
+    bookingId: id,
+    source: "booking-service",
+    reference: payload.reference,
+    customerId: String(payload.customer_id),
+    customerName: payload.customer_name,
+    contactPhone: payload.contact_phone,
+    currentStatus: normalizeBookingStatus(payload.status),
+    date: `${payload.date}T${payload.start_time}`,
+    startTime: payload.start_time,
+    endTime: payload.end_time,
+    serviceName: services.map((service) => service.name).join(", "),
+    center: payload.center,
+    service: payload.service ?? services[0],
+    services,
+    bay: payload.bay,
+    vehicleId: payload.vehicle_id,
+    vehicle: vehicles.find((v) => v._id === payload.vehicle_id),
+    notes: payload.notes,
+    createdAt: payload.created_at,
+    assignedTo:
+      payload.assigned_to != null
+        ? { id: payload.assigned_to, name: payload.assigned_to_name ?? "" }
+        : null,
+    statusHistory: (payload.status_history ?? []).map((change) => ({
+      from: change.from_status
+        ? normalizeBookingStatus(change.from_status)
+        : null,
+      to: normalizeBookingStatus(change.to_status),
+      changedBy: { id: change.changed_by_id, name: change.changed_by },
+      changedAt: change.changed_at,
+      reason: change.reason,
+    })),
+  };
+}
+
+// Booking requests service (employee queue) → canonical booking
+export function fromBookingRequestPayload(
+  payload: BookingRequestPayload,
+): Booking {
+  return {
+    _id: payload._id,
+    bookingId: payload.bookingId,
+    source: "booking-requests",
+    customerId: payload.customerId,
+    customerName: payload.customerName,
+    contactPhone: payload.contactPhone,
+    currentStatus: normalizeBookingStatus(payload.currentStatus),
+    date: payload.date,
+    serviceName: payload.serviceName,
+    vehicleId: payload.vehicle?._id,
+    vehicle: payload.vehicle,
+    notes: payload.notes,
+    assignedTo: payload.assignedTo ?? null,
+    statusHistory: (payload.statusHistory ?? []).map((change) => ({
+      ...change,
+      from: change.from ? normalizeBookingStatus(change.from) : null,
+      to: normalizeBookingStatus(change.to),
+    })),
+  };
+}
+
+// Dummy booking requests (lib/mock) → canonical booking
+export function fromMockBookingRequest(request: BookingRequest): Booking {
+  return {
+    _id: request.id,
+    bookingId: request.id,
+    source: "booking-requests",
+    customerId: request.customerId,
+    customerName: "",
+    currentStatus: normalizeBookingStatus(request.status),
+    date: request.requestedDate,
+    serviceName: request.serviceType,
+    vehicleId: request.vehicleId,
+    vehicle: {
+      _id: request.vehicleId,
+      vehicleType: "",
+      ...request.vehicle,
+    },
+    notes: request.notes,
+    statusHistory: request.history ?? [],
+  };
+}
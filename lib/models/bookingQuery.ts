@@ -0,0 +1,170 @@
+import type { AssignmentScope } from "./assignment";
+import { BOOKING_STATUSES, type Booking, type BookingStatus } from "./booking";
+
+export const BOOKING_SORT_FIELDS = [
+  "date",
+  "serviceName",
+  "customerName",
+] as const;
+
+export type BookingSortField = (typeof BOOKING_SORT_FIELDS)[number];
+
+/**
+ * Filters, sort and page for GET /api/bookings/search. Bookings from the
+ * booking service are filtered and sorted in the client with the same query.
+ * The same shape is kept in the page URL so filtered views can be shared.
+ */
+export interface BookingQuery {
+  status?: BookingStatus[];
+  // Matched by the server against service, vehicle, plate and customer
+  search?: string;
+  // Inclusive YYYY-MM-DD bounds on the appointment date
+  from?: string;
+  to?: string;
+  assignedTo?: number | string;
+  sort: BookingSortField;
+  order: "asc" | "desc";
+  page: number;
+  pageSize: number;
+}
+
+export interface BookingPage<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export const DEFAULT_BOOKING_QUERY: BookingQuery = {
+  sort: "date",
+  order: "desc",
+  page: 1,
+  pageSize: 10,
+};
+
+const MAX_PAGE_SIZE = 100;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toPositiveInt = (value: string | null, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Serialises a query into URL parameters, leaving out empty filters and
+ * defaults. Statuses are sent comma separated.
+ */
+export function toBookingSearchParams(query: Partial<BookingQuery>) {
+  const { sort, order, page, pageSize } = {
+    ...DEFAULT_BOOKING_QUERY,
+    ...query,
+  };
+  const params = new URLSearchParams();
+
+  if (query.status?.length) params.set("status", query.status.join(","));
+  if (query.search?.trim()) params.set("search", query.search.trim());
+  if (query.from) params.set("from", query.from);
+  if (query.to) params.set("to", query.to);
+  if (query.assignedTo !== undefined) {
+    params.set("assignedTo", String(query.assignedTo));
+  }
+  if (sort !== DEFAULT_BOOKING_QUERY.sort) params.set("sort", sort);
+  if (order !== DEFAULT_BOOKING_QUERY.order) params.set("order", order);
+  if (page !== DEFAULT_BOOKING_QUERY.page) params.set("page", String(page));
+  if (pageSize !== DEFAULT_BOOKING_QUERY.pageSize) {
+    params.set("pageSize", String(Math.min(pageSize, MAX_PAGE_SIZE)));
+  }
+
+  return params;
+}
+
+/**
+ * Reads a query back from URL parameters. Unknown or malformed values
+ * fall back to the defaults instead of reaching the API.
+ */
+export function parseBookingSearchParams(
+  params: URLSearchParams,
+): BookingQuery {
+  const status = (params.get("status") ?? "")
+    .split(",")
+    .filter((s): s is BookingStatus =>
+      (BOOKING_STATUSES as readonly string[]).includes(s),
+    );
+  const sort = params.get("sort");
+  const from = params.get("from");
+  const to = params.get("to");
+
+  return {
+    status: status.length ? status : undefined,
+    search: params.get("search")?.trim() || undefined,
+    from: from && DATE_PATTERN.test(from) ? from : undefined,
+    to: to && DATE_PATTERN.test(to) ? to : undefined,
+    assignedTo: params.get("assignedTo") ?? undefined,
+    sort: (BOOKING_SORT_FIELDS as readonly string[]).includes(sort ?? "")
+      ? (sort as BookingSortField)
+      : DEFAULT_BOOKING_QUERY.sort,
+    order: params.get("order") === "asc" ? "asc" : "desc",
+    page: toPositiveInt(params.get("page"), DEFAULT_BOOKING_QUERY.page),
+    pageSize: Math.min(
+      toPositiveInt(params.get("pageSize"), DEFAULT_BOOKING_QUERY.pageSize),
+      MAX_PAGE_SIZE,
+    ),
+  };
+}
+
+/**
+ * Client-side version of the server's filters, for bookings from the
+ * booking service, which has no search
+ */
+export function matchesBookingQuery(
+  booking: Booking,
+  query: Partial<BookingQuery>,
+): boolean {
+  const day = booking.date.slice(0, 10);
+  if (query.status?.length && !query.status.includes(booking.currentStatus)) {
+    return false;
+  }
+  if (query.from && day < query.from) return false;
+  if (query.to && day > query.to) return false;
+  if (
+    query.assignedTo !== undefined &&
+    String(booking.assignedTo?.id) !== String(query.assignedTo)
+  ) {
+    return false;
+  }
+
+  const search = query.search?.trim().toLowerCase();
+  if (!search) return true;
+  return [
+    booking.serviceName,
+    booking.customerName,
+    booking.vehicle?.brand,
+    booking.vehicle?.model,
+    booking.vehicle?.licensePlate,
+  ].some((field) => field?.toLowerCase().includes(search));
+}
+
+export function sortBookings(
+  bookings: Booking[],
+  sort: BookingSortField,
+  order: "asc" | "desc",
+): Booking[] {
+  const direction = order === "asc" ? 1 : -1;
+  return [...bookings].sort((a, b) => {
+    const compared =
+      sort === "date"
+        ? new Date(a.date).getTime() - new Date(b.date).getTime()
+        : (a[sort] ?? "").localeCompare(b[sort] ?? "");
+    return compared * direction;
+  });
+}
+
+// "mine" narrows the query to the employee, "all" searches everyone's
+export const withAssignmentScope = (
+  query: BookingQuery,
+  scope: Exclude<AssignmentScope, "unassigned">,
+  userId?: number | string,
+): BookingQuery => ({
+  ...query,
+  assignedTo: scope === "mine" ? userId : undefined,
+});
@@ -0,0 +1,95 @@
+import type { BookingStatus } from "./booking";
+
+/**
+ * Allowed status moves. Anything not listed here is rejected by the store
+ * and the API client before it reaches a backend.
+ */
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  Pending: ["Accepted", "Rejected", "Cancelled"],
+  Accepted: ["In-Progress", "Cancelled"],
+  "In-Progress": ["Hold on", "Completed"],
+  "Hold on": ["In-Progress"],
+  Rejected: [],
+  Completed: [],
+  Cancelled: [],
+  Unknown: [],
+};
+
+export type BookingActor = "employee" | "customer";
+
+// Moves only the customer who owns the booking may make
+const CUSTOMER_TRANSITIONS: BookingStatus[] = ["Cancelled"];
+
+// Moves that need the employee to say why
+export const REASON_REQUIRED: BookingStatus[] = ["Rejected", "Hold on"];
+
+export interface BookingStatusChange {
+  from: BookingStatus | null;
+  to: BookingStatus;
+  changedBy: {
+    id?: number | string;
+    name: string;
+  };
+  changedAt: string;
+  reason?: string;
+}
+
+export class InvalidStatusTransitionError extends Error {
+  from: BookingStatus;
+  to: BookingStatus;
+
+  constructor(from: BookingStatus, to: BookingStatus) {
+    super(`Cannot move a booking from "${from}" to "${to}"`);
+    this.name = "InvalidStatusTransitionError";
+    this.from = from;
+    this.to = to;
+  }
+}
+
+// Bookings in a status we couldn't map stay out of the work queues
+export const isWorkable = (booking: { currentStatus: BookingStatus }) =>
+  booking.currentStatus !== "Unknown";
+
+export const canTransition = (from: BookingStatus, to: BookingStatus) =>
+  BOOKING_TRANSITIONS[from].includes(to);
+
+export const getAllowedTransitions = (
+  from: BookingStatus,
+  actor: BookingActor = "employee",
+) =>
+  BOOKING_TRANSITIONS[from].filter(
+    (to) => CUSTOMER_TRANSITIONS.includes(to) === (actor === "customer"),
+  );
+
+// Customers may move their appointment until work has started
+export const canReschedule = (status: BookingStatus) =>
+  status === "Pending" || status === "Accepted";
+
+export const isTerminalStatus = (status: BookingStatus) =>
+  BOOKING_TRANSITIONS[status].length === 0;
+
+export function assertTransition(from: BookingStatus, to: BookingStatus) {
+  if (!canTransition(from, to)) {
+    throw new InvalidStatusTransitionError(from, to);
+  }
+}
+
+// Button label for moving a booking from one status to another
+export function getTransitionLabel(from: BookingStatus, to: BookingStatus) {
+  switch (to) {
+    case "Accepted":
+      return "Accept";
+    case "Rejected":
+      return "Reject";
+    case "In-Progress":
+      return from === "Hold on" ? "Resume Work" : "Start Work";
+    case "Hold on":
+      return "Put on Hold";
+    case "Completed":
+      return "Mark as Completed";
+    case "Cancelled":
+      return "Cancel Booking";
+    default:
+      return to;
+  }
+}
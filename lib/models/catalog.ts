@@ -0,0 +1,102 @@
+import type { Center, CenterData, Service, ServiceData } from "@/app/types";
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+export const MAX_SERVICE_MINUTES = 8 * 60;
+
+const sameName = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Returns the first problem with a center form, or null when it can be
+ * saved. Pass the id being edited so it doesn't clash with itself.
+ */
+export function validateCenter(
+  data: CenterData,
+  centers: Center[],
+  editingId?: number,
+): string | null {
+  if (!data.name.trim()) return "Name is required";
+  if (!data.location.trim()) return "Location is required";
+  if (centers.some((c) => c.id !== editingId && sameName(c.name, data.name))) {
+    return `A center named ${data.name.trim()} already exists`;
+  }
+  if (!data.opening_time || !TIME_PATTERN.test(data.opening_time)) {
+    return "Opening time must be HH:MM";
+  }
+  if (!data.closing_time || !TIME_PATTERN.test(data.closing_time)) {
+    return "Closing time must be HH:MM";
+  }
+  // Zero-padded HH:MM strings compare in time order
+  if (data.closing_time <= data.opening_time) {
+    return "Closing time must be after opening time";
+  }
+  if (!Number.isInteger(data.bay_count) || (data.bay_count ?? 0) < 1) {
+    return "Bay count must be a whole number of at least 1";
+  }
+  return null;
+}
+
+/**
+ * Returns the first problem with a service form, or null when it can be
+ * saved
+ */
+export function validateService(
+  data: ServiceData,
+  services: Service[],
+  centers: Center[],
+  editingId?: number,
+): string | null {
+  if (!data.name.trim()) return "Name is required";
+  if (!data.category.trim()) return "Category is required";
+  if (services.some((s) => s.id !== editingId && sameName(s.name, data.name))) {
+    return `A service named ${data.name.trim()} already exists`;
+  }
+  if (
+    !Number.isInteger(data.duration_minutes) ||
+    data.duration_minutes <= 0 ||
+    data.duration_minutes > MAX_SERVICE_MINUTES
+  ) {
+    return `Duration must be a whole number of minutes up to ${MAX_SERVICE_MINUTES}`;
+  }
+  if (!(data.price >= 0)) return "Price cannot be negative";
+  if (!data.center_ids?.length) return "Choose at least one center";
+  if (data.center_ids.some((id) => !centers.some((c) => c.id === id))) {
+    return "One of the selected centers no longer exists";
+  }
+  if (Object.values(data.center_prices ?? {}).some((price) => !(price >= 0))) {
+    return "Center prices cannot be negative";
+  }
+  return null;
+}
+
+// Services without a center list predate per-center offerings
+export const isOfferedAt = (service: Service, centerId: number) =>
+  !service.center_ids || service.center_ids.includes(centerId);
+
+// The booking service serializes decimals as strings
+export const getTotalPrice = (services: Service[]) =>
+  services.reduce((sum, service) => sum + Number(service.price), 0);
+
+// Booked services run back to back, so a slot must cover all of them
+export const getTotalDuration = (services: Service[]) =>
+  services.reduce((sum, service) => sum + service.duration_minutes, 0);
+
+export const getPriceAt = (service: Service, centerId: number) =>
+  service.center_prices?.[centerId] ?? service.price;
+
+/**
+ * The services a center offers, with `price` set to what that center
+ * charges so booking screens can show it without knowing about overrides
+ */
+export const getServicesForCenter = (
+  services: Service[],
+  centerId: number,
+): Service[] =>
+  services
+    .filter((service) => isOfferedAt(service, centerId))
+    .map((service) => ({ ...service, price: getPriceAt(service, centerId) }));
+
+export const formatOpeningHours = (center: Center) =>
+  center.opening_time && center.closing_time
+    ? `${center.opening_time} - ${center.closing_time}`
+    : "Hours not set";
@@ -0,0 +1,60 @@
+import type { Vehicle } from "@/lib/store/vehicleStore";
+import { getBookedServices, type Booking, type BookingStatus } from "./booking";
+import { getTotalPrice } from "./catalog";
+
+const UPCOMING_STATUSES: BookingStatus[] = ["Pending", "Accepted"];
+const IN_SERVICE_STATUSES: BookingStatus[] = ["In-Progress", "Hold on"];
+
+export interface CustomerStats {
+  vehicleCount: number;
+  // Not yet started and still in the future, soonest first
+  upcoming: Booking[];
+  inService: Booking[];
+  // What every completed booking cost, all of its services included
+  totalSpend: number;
+  nextAppointment: Booking | null;
+  // Vehicle id → ISO date of its latest completed service
+  lastServiceByVehicle: Record<string, string>;
+}
+
+const toTime = (booking: Booking) => new Date(booking.date).getTime();
+
+/**
+ * Dashboard figures derived from the customer's vehicles and bookings
+ */
+export function getCustomerStats(
+  bookings: Booking[],
+  vehicles: Vehicle[],
+  now = Date.now(),
+): CustomerStats {
+  const upcoming = bookings
+    .filter(
+      (b) => UPCOMING_STATUSES.includes(b.currentStatus) && toTime(b) >= now,
+    )
+    .sort((a, b) => toTime(a) - toTime(b));
+
+  const completed = bookings.filter((b) => b.currentStatus === "Completed");
+
+  const lastServiceByVehicle: Record<string, string> = {};
+  for (const booking of completed) {
+    if (!booking.vehicleId) continue;
+    const previous = lastServiceByVehicle[booking.vehicleId];
+    if (!previous || new Date(previous).getTime() < toTime(booking)) {
+      lastServiceByVehicle[booking.vehicleId] = booking.date;
+    }
+  }
+
+  return {
+    vehicleCount: vehicles.length,
+    upcoming,
+    inService: bookings.filter((b) =>
+      IN_SERVICE_STATUSES.includes(b.currentStatus),
+    ),
+    totalSpend: completed.reduce(
+      (sum, b) => sum + (getTotalPrice(getBookedServices(b)) || 0),
+      0,
+    ),
+    nextAppointment: upcoming[0] ?? null,
+    lastServiceByVehicle,
+  };
+}
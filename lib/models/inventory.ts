@@ -0,0 +1,116 @@
+export interface Part {
+  _id: string;
+  sku: string;
+  name: string;
+  category?: string;
+  unitPrice: number;
+  reorderLevel: number;
+}
+
+export interface StockLevel {
+  partId: string;
+  centerId: number;
+  onHand: number;
+  reserved: number;
+}
+
+export type ReservationStatus = "Reserved" | "Consumed" | "Released";
+
+export interface PartReservation {
+  _id: string;
+  projectId: string;
+  partId: string;
+  centerId: number;
+  quantity: number;
+  status: ReservationStatus;
+  // Saved when the parts are consumed, so invoices keep what was charged
+  partName?: string;
+  unitPrice?: number;
+  reservedBy: { id?: number | string; name: string };
+  createdAt: string;
+}
+
+export interface LowStockItem {
+  part: Part;
+  stock: StockLevel;
+  available: number;
+}
+
+export class InsufficientStockError extends Error {
+  available: number;
+  requested: number;
+
+  constructor(part: Pick<Part, "name">, available: number, requested: number) {
+    super(
+      `Only ${available} ${part.name} available, cannot reserve ${requested}`,
+    );
+    this.name = "InsufficientStockError";
+    this.available = available;
+    this.requested = requested;
+  }
+}
+
+// Parts are counted in whole units
+export const isValidQuantity = (quantity: number) =>
+  Number.isInteger(quantity) && quantity > 0;
+
+// On hand minus what is held for projects
+export const getAvailable = (stock?: StockLevel) =>
+  stock ? Math.max(stock.onHand - stock.reserved, 0) : 0;
+
+export const findStockLevel = (
+  levels: StockLevel[],
+  partId: string,
+  centerId: number,
+) => levels.find((l) => l.partId === partId && l.centerId === centerId);
+
+export const isLowStock = (part: Part, stock?: StockLevel) =>
+  getAvailable(stock) <= part.reorderLevel;
+
+/**
+ * Stock levels at or below their part's reorder level, emptiest first.
+ * Pass a centerId to look at one center only.
+ */
+export function getLowStockItems(
+  parts: Part[],
+  levels: StockLevel[],
+  centerId?: number,
+): LowStockItem[] {
+  const partsById = new Map(parts.map((p) => [p._id, p]));
+
+  return levels
+    .filter((stock) => centerId === undefined || stock.centerId === centerId)
+    .flatMap((stock) => {
+      const part = partsById.get(stock.partId);
+      return part && isLowStock(part, stock)
+        ? [{ part, stock, available: getAvailable(stock) }]
+        : [];
+    })
+    .sort(
+      (a, b) =>
+        a.available - a.part.reorderLevel - (b.available - b.part.reorderLevel),
+    );
+}
+
+/**
+ * Throws InsufficientStockError when the center cannot cover the quantity
+ */
+export function assertCanReserve(
+  part: Part,
+  stock: StockLevel | undefined,
+  quantity: number,
+) {
+  const available = getAvailable(stock);
+  if (quantity > available) {
+    throw new InsufficientStockError(part, available, quantity);
+  }
+}
+
+// Reserved parts still count against a project; released ones do not
+export const getActiveReservations = (
+  reservations: PartReservation[],
+  projectId: string,
+) =>
+  reservations.filter(
+    (r) => r.projectId === projectId && r.status !== "Released",
+  );
@@ -0,0 +1,134 @@
+import type { Project } from "@/lib/store/projectsStore";
+import { getBookedServices, type Booking } from "./booking";
+import type { PartReservation } from "./inventory";
+import { getLineItemTotal, QuoteLineItemType } from "./quote";
+
+export const DEFAULT_TAX_RATE = 0.15;
+
+export interface InvoiceLine {
+  type: "service" | QuoteLineItemType;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+/**
+ * Everything printed on a completed booking's service report and invoice.
+ * Built only from the booking, its project and the prices saved when its
+ * parts were consumed, so employees and customers generate the identical
+ * document and it doesn't change when the catalogue does.
+ */
+export interface Invoice {
+  number: string;
+  issuedAt: string;
+  booking: Booking;
+  technician?: string;
+  lines: InvoiceLine[];
+  partsTotal: number;
+  labourTotal: number;
+  subtotal: number;
+  taxRate: number;
+  tax: number;
+  total: number;
+  // Progress updates and notes posted while the job ran, oldest first
+  workPerformed: { date: string; text: string }[];
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// When the booking reached Completed, falling back to the appointment date
+export function getCompletedAt(booking: Booking) {
+  const change = [...booking.statusHistory]
+    .reverse()
+    .find((c) => c.to === "Completed");
+  return change?.changedAt ?? booking.date;
+}
+
+export const getInvoiceNumber = (booking: Booking) =>
+  `INV-${(booking.reference ?? booking.bookingId.slice(-8)).toUpperCase()}`;
+
+/**
+ * Booked services first, then the approved quote's parts and labour.
+ * Quotes that were never approved are not billed. Without an approved
+ * quote, parts consumed from stock are billed at the price saved on them.
+ */
+export function buildInvoice(
+  booking: Booking,
+  project?: Project,
+  reservations: PartReservation[] = [],
+  taxRate = DEFAULT_TAX_RATE,
+): Invoice {
+  const lines: InvoiceLine[] = [];
+
+  for (const service of getBookedServices(booking)) {
+    // The booking service serializes decimals as strings
+    const servicePrice = Number(service.price);
+    if (!Number.isFinite(servicePrice)) continue;
+    lines.push({
+      type: "service",
+      description: service.name,
+      quantity: 1,
+      unitPrice: servicePrice,
+      total: servicePrice,
+    });
+  }
+
+  if (project?.quote?.status === "Approved") {
+    for (const item of project.quote.items) {
+      lines.push({ ...item, total: getLineItemTotal(item) });
+    }
+  } else if (project) {
+    // An approved quote already prices the parts it needed
+    for (const reservation of reservations) {
+      if (
+        reservation.projectId !== project._id ||
+        reservation.status !== "Consumed" ||
+        reservation.unitPrice === undefined
+      ) {
+        continue;
+      }
+      const item = {
+        type: "part" as const,
+        description: reservation.partName ?? "Part",
+        quantity: reservation.quantity,
+        unitPrice: reservation.unitPrice,
+      };
+      lines.push({ ...item, total: getLineItemTotal(item) });
+    }
+  }
+
+  const sumOf = (types: InvoiceLine["type"][]) =>
+    roundCents(
+      lines
+        .filter((line) => types.includes(line.type))
+        .reduce((sum, line) => sum + line.total, 0),
+    );
+
+  const subtotal = sumOf(["service", "part", "labour"]);
+  const tax = roundCents(subtotal * taxRate);
+
+  return {
+    number: getInvoiceNumber(booking),
+    issuedAt: getCompletedAt(booking),
+    booking,
+    technician: booking.assignedTo?.name ?? project?.assignedTo?.name,
+    lines,
+    partsTotal: sumOf(["part"]),
+    labourTotal: sumOf(["labour"]),
+    subtotal,
+    taxRate,
+    tax,
+    total: roundCents(subtotal + tax),
+    workPerformed: [
+      ...(project?.progressUpdates ?? []).map((u) => ({
+        date: u.createdAt,
+        text: u.message,
+      })),
+      ...(project?.projectNotes ?? []).map((n) => ({
+        date: n.createdAt,
+        text: n.text,
+      })),
+    ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()),
+  };
+}
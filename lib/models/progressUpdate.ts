@@ -0,0 +1,47 @@
+import type { ProgressUpdate } from "@/lib/store/projectsStore";
+
+export const MAX_PHOTOS_PER_UPDATE = 4;
+export const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+
+// MIME type → file extension for photos the upload endpoint accepts
+export const PHOTO_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/heic": "heic",
+};
+
+// Photo rejected before it is uploaded (wrong type, too large, too many)
+export class InvalidPhotoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidPhotoError";
+  }
+}
+
+/**
+ * Throws InvalidPhotoError unless the file is an accepted image within
+ * the size limit. Shared by the upload form and the upload route.
+ */
+export function assertValidPhoto(file: {
+  name: string;
+  type: string;
+  size: number;
+}) {
+  if (!PHOTO_EXTENSIONS[file.type]) {
+    throw new InvalidPhotoError(
+      `${file.name} is not a supported image (JPEG, PNG, WebP or HEIC)`,
+    );
+  }
+  if (file.size > MAX_PHOTO_BYTES) {
+    throw new InvalidPhotoError(
+      `${file.name} is larger than ${MAX_PHOTO_BYTES / 1024 / 1024} MB`,
+    );
+  }
+}
+
+// Newest first, the order both timelines show
+export const sortProgressUpdates = (updates: ProgressUpdate[] = []) =>
+  [...updates].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+  );
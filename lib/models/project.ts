@@ -0,0 +1,23 @@
+import type { Project } from "@/lib/store/projectsStore";
+import type { BookingStatus } from "./booking";
+
+// Project status that mirrors each booking status once a project exists
+const PROJECT_STATUS_FOR_BOOKING: Partial<
+  Record<BookingStatus, Project["status"]>
+> = {
+  Accepted: "Pending",
+  "In-Progress": "In Progress",
+  "Hold on": "On Hold",
+  Completed: "Completed",
+  Cancelled: "Cancelled",
+};
+
+export const getProjectStatusForBooking = (status: BookingStatus) =>
+  PROJECT_STATUS_FOR_BOOKING[status] ?? null;
+
+// Completed and cancelled projects no longer take notes or parts
+export const isProjectClosed = (project: Project) =>
+  project.status === "Completed" || project.status === "Cancelled";
+
+export const findProjectForBooking = (projects: Project[], bookingId: string) =>
+  projects.find((p) => p.appointmentId === bookingId);
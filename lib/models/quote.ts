@@ -0,0 +1,81 @@
+export type QuoteLineItemType = "part" | "labour";
+
+export interface QuoteLineItem {
+  type: QuoteLineItemType;
+  description: string;
+  // Units for parts, hours for labour
+  quantity: number;
+  unitPrice: number;
+}
+
+export type QuoteStatus = "Draft" | "Sent" | "Approved" | "Rejected";
+
+/**
+ * Scoped price for a modification project. The employee drafts and sends
+ * it; the customer approves or rejects it before work may start.
+ */
+export interface Quote {
+  items: QuoteLineItem[];
+  status: QuoteStatus;
+  notes?: string;
+  sentAt?: string;
+  respondedAt?: string;
+  rejectionReason?: string;
+}
+
+export interface QuoteTotals {
+  parts: number;
+  labour: number;
+  labourHours: number;
+  total: number;
+}
+
+export const getLineItemTotal = (item: QuoteLineItem) =>
+  item.quantity * item.unitPrice;
+
+export function getQuoteTotals(items: QuoteLineItem[]): QuoteTotals {
+  return items.reduce<QuoteTotals>(
+    (totals, item) => {
+      const amount = getLineItemTotal(item);
+      if (item.type === "labour") {
+        totals.labour += amount;
+        totals.labourHours += item.quantity;
+      } else {
+        totals.parts += amount;
+      }
+      totals.total += amount;
+      return totals;
+    },
+    { parts: 0, labour: 0, labourHours: 0, total: 0 },
+  );
+}
+
+/**
+ * Returns the first problem with a set of line items, or null when the
+ * quote can be sent.
+ */
+export function validateQuoteItems(items: QuoteLineItem[]): string | null {
+  if (items.length === 0) return "Add at least one line item";
+
+  for (const [index, item] of items.entries()) {
+    const row = `Line ${index + 1}`;
+    if (!item.description.trim()) return `${row}: description is required`;
+    if (!(item.quantity > 0)) {
+      return `${row}: ${item.type === "labour" ? "hours" : "quantity"} must be greater than zero`;
+    }
+    if (!(item.unitPrice >= 0)) return `${row}: price cannot be negative`;
+  }
+  return null;
+}
+
+// Employees may edit drafts, and rejected quotes to send a revision
+export const isQuoteEditable = (quote?: Quote) =>
+  !quote || quote.status === "Draft" || quote.status === "Rejected";
+
+/**
+ * Service projects can always start; modifications need an approved quote.
+ */
+export const canStartProject = (project: {
+  projectType: "Service" | "Modification";
+  quote?: Quote;
+}) => project.projectType === "Service" || project.quote?.status === "Approved";
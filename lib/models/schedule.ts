@@ -0,0 +1,230 @@
+import type { Center } from "@/app/types";
+import { getBookedServices, type Booking, type BookingStatus } from "./booking";
+import { getTotalDuration } from "./catalog";
+
+export type ScheduleView = "bays" | "technicians";
+
+export interface ScheduleRow {
+  id: string;
+  label: string;
+}
+
+// A booking placed on the board; times are minutes after midnight
+export interface ScheduleBlock {
+  booking: Booking;
+  rowId: string;
+  start: number;
+  end: number;
+}
+
+export interface OpeningHours {
+  open: number;
+  close: number;
+}
+
+export interface ScheduleMove {
+  bookingId: string;
+  rowId: string;
+  start: number;
+}
+
+// Drops snap to this grid
+export const SLOT_STEP_MINUTES = 15;
+
+// Holds bookings without a bay or technician yet
+export const UNASSIGNED_ROW = "unassigned";
+
+// Used for centers that haven't set their hours
+const DEFAULT_HOURS = { opening_time: "08:00", closing_time: "18:00" };
+
+// Cancelled and rejected bookings don't take up a bay
+const SCHEDULED_STATUSES: BookingStatus[] = [
+  "Pending",
+  "Accepted",
+  "In-Progress",
+  "Hold on",
+  "Completed",
+];
+
+// Work has started, so the booking can no longer be moved
+const LOCKED_STATUSES: BookingStatus[] = ["In-Progress", "Completed"];
+
+const BAY_PREFIX = "bay-";
+const TECHNICIAN_PREFIX = "tech-";
+
+// Accepts "HH:MM" and "HH:MM:SS"
+export const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+export const fromMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(
+    minutes % 60,
+  ).padStart(2, "0")}`;
+
+export const snapToStep = (minutes: number) =>
+  Math.round(minutes / SLOT_STEP_MINUTES) * SLOT_STEP_MINUTES;
+
+export const getOpeningHours = (center?: Center | null): OpeningHours => ({
+  open: toMinutes(center?.opening_time ?? DEFAULT_HOURS.opening_time),
+  close: toMinutes(center?.closing_time ?? DEFAULT_HOURS.closing_time),
+});
+
+/**
+ * Minutes the booking needs: its services back to back, or the booked
+ * times when the services aren't known
+ */
+export function getBookingDuration(booking: Booking): number {
+  const services = getBookedServices(booking);
+  if (services.length > 0) return getTotalDuration(services);
+  if (booking.startTime && booking.endTime) {
+    return toMinutes(booking.endTime) - toMinutes(booking.startTime);
+  }
+  return 60;
+}
+
+export const getBayNumber = (rowId: string) =>
+  rowId.startsWith(BAY_PREFIX) ? Number(rowId.slice(BAY_PREFIX.length)) : null;
+
+const getRowId = (booking: Booking, view: ScheduleView) => {
+  if (view === "bays") {
+    return booking.bay ? `${BAY_PREFIX}${booking.bay}` : UNASSIGNED_ROW;
+  }
+  return booking.assignedTo
+    ? `${TECHNICIAN_PREFIX}${booking.assignedTo.id}`
+    : UNASSIGNED_ROW;
+};
+
+/**
+ * One row per bay, or per technician with work that day, followed by the
+ * unassigned row
+ */
+export function getScheduleRows(
+  center: Center | null | undefined,
+  bookings: Booking[],
+  view: ScheduleView,
+): ScheduleRow[] {
+  let rows: ScheduleRow[];
+  if (view === "bays") {
+    rows = Array.from({ length: center?.bay_count ?? 1 }, (_, index) => ({
+      id: `${BAY_PREFIX}${index + 1}`,
+      label: `Bay ${index + 1}`,
+    }));
+  } else {
+    const technicians = new Map<string, string>();
+    for (const booking of bookings) {
+      if (!booking.assignedTo) continue;
+      technicians.set(
+        `${TECHNICIAN_PREFIX}${booking.assignedTo.id}`,
+        booking.assignedTo.name || `Technician ${booking.assignedTo.id}`,
+      );
+    }
+    rows = [...technicians]
+      .map(([id, label]) => ({ id, label }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }
+  return [...rows, { id: UNASSIGNED_ROW, label: "Unassigned" }];
+}
+
+export function getScheduleBlocks(
+  bookings: Booking[],
+  view: ScheduleView,
+): ScheduleBlock[] {
+  return bookings
+    .filter(
+      (booking) =>
+        booking.startTime && SCHEDULED_STATUSES.includes(booking.currentStatus),
+    )
+    .map((booking) => {
+      const start = toMinutes(booking.startTime!);
+      return {
+        booking,
+        rowId: getRowId(booking, view),
+        start,
+        end: start + getBookingDuration(booking),
+      };
+    });
+}
+
+// Share of the rows' open hours taken up by bookings, from 0 to 1
+export function getUtilization(
+  blocks: ScheduleBlock[],
+  rows: ScheduleRow[],
+  hours: OpeningHours,
+) {
+  const capacityRows = rows.filter((row) => row.id !== UNASSIGNED_ROW);
+  const capacity = capacityRows.length * (hours.close - hours.open);
+  if (capacity <= 0) return 0;
+  const booked = blocks
+    .filter((block) => block.rowId !== UNASSIGNED_ROW)
+    .reduce((sum, block) => sum + (block.end - block.start), 0);
+  return Math.min(1, booked / capacity);
+}
+
+const overlaps = (
+  a: { start: number; end: number },
+  start: number,
+  end: number,
+) => a.start < end && start < a.end;
+
+/**
+ * Returns the first reason a dragged booking can't go where it was dropped,
+ * or null when the move is allowed. `notBefore` rules out times that have
+ * already passed today.
+ */
+export function validateScheduleMove(
+  move: ScheduleMove,
+  blocks: ScheduleBlock[],
+  hours: OpeningHours,
+  view: ScheduleView,
+  notBefore?: number,
+): string | null {
+  const block = blocks.find((b) => b.booking.bookingId === move.bookingId);
+  if (!block) return "This booking is no longer on the board";
+  if (LOCKED_STATUSES.includes(block.booking.currentStatus)) {
+    return "Work on this booking has already started";
+  }
+  if (view === "technicians" && move.rowId !== block.rowId) {
+    return "Change technicians from Work Assignment";
+  }
+
+  const duration = block.end - block.start;
+  const end = move.start + duration;
+  if (move.start < hours.open || end > hours.close) {
+    return `The ${duration} min booking must fit between ${fromMinutes(
+      hours.open,
+    )} and ${fromMinutes(hours.close)}`;
+  }
+  if (notBefore !== undefined && move.start < notBefore) {
+    return "Bookings can't be moved into the past";
+  }
+
+  const others = blocks.filter((b) => b !== block);
+  if (move.rowId !== UNASSIGNED_ROW) {
+    const clash = others.find(
+      (b) => b.rowId === move.rowId && overlaps(b, move.start, end),
+    );
+    if (clash) {
+      return `Overlaps ${clash.booking.serviceName} (${fromMinutes(
+        clash.start,
+      )}-${fromMinutes(clash.end)})`;
+    }
+  }
+
+  // A technician can't be in two bays at once
+  const technician = block.booking.assignedTo;
+  if (technician) {
+    const busy = others.find(
+      (b) =>
+        b.booking.assignedTo?.id === technician.id &&
+        overlaps(b, move.start, end),
+    );
+    if (busy) {
+      return `${technician.name || "The technician"} is busy with ${
+        busy.booking.serviceName
+      } until ${fromMinutes(busy.end)}`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,6 @@
+// The countdown turns into a warning this close to expiry
+export const HOLD_WARNING_SECONDS = 60;
+
+// 275 -> "4:35"
+export const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
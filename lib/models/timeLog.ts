@@ -0,0 +1,142 @@
+import dayjs from "dayjs";
+
+export interface TimeEntry {
+  _id: string;
+  bookingId: string;
+  projectId?: string;
+  employeeId: number | string;
+  employeeName: string;
+  startedAt: string;
+  // null while the timer is running
+  endedAt: string | null;
+  note?: string;
+}
+
+export class TimeEntryOverlapError extends Error {
+  conflict: TimeEntry;
+
+  constructor(conflict: TimeEntry) {
+    super(
+      `Overlaps time already logged from ${dayjs(conflict.startedAt).format("MMM D HH:mm")} to ${
+        conflict.endedAt ? dayjs(conflict.endedAt).format("HH:mm") : "now"
+      }`,
+    );
+    this.name = "TimeEntryOverlapError";
+    this.conflict = conflict;
+  }
+}
+
+// Entry rejected before reaching the server (bad range, no signed-in user)
+export class InvalidTimeEntryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidTimeEntryError";
+  }
+}
+
+const sameEmployee = (a: TimeEntry["employeeId"], b: TimeEntry["employeeId"]) =>
+  String(a) === String(b);
+
+// Running entries count up to `now`
+const getRange = (
+  entry: Pick<TimeEntry, "startedAt" | "endedAt">,
+  now: number,
+) => ({
+  start: new Date(entry.startedAt).getTime(),
+  end: entry.endedAt ? new Date(entry.endedAt).getTime() : now,
+});
+
+export const isRunning = (entry: TimeEntry) => entry.endedAt === null;
+
+export function getEntryDuration(entry: TimeEntry, now = Date.now()) {
+  const { start, end } = getRange(entry, now);
+  return Math.max(end - start, 0);
+}
+
+export const getTotalDuration = (entries: TimeEntry[], now = Date.now()) =>
+  entries.reduce((sum, entry) => sum + getEntryDuration(entry, now), 0);
+
+/**
+ * First entry of the same employee that overlaps the candidate, ignoring
+ * the entry being edited. An employee can't be on two jobs at once.
+ */
+export function findOverlap(
+  entries: TimeEntry[],
+  candidate: Pick<TimeEntry, "employeeId" | "startedAt" | "endedAt"> & {
+    _id?: string;
+  },
+  now = Date.now(),
+): TimeEntry | null {
+  const range = getRange(candidate, now);
+  return (
+    entries.find((entry) => {
+      if (entry._id === candidate._id) return false;
+      if (!sameEmployee(entry.employeeId, candidate.employeeId)) return false;
+      const other = getRange(entry, now);
+      return range.start < other.end && other.start < range.end;
+    }) ?? null
+  );
+}
+
+export function assertNoOverlap(
+  entries: TimeEntry[],
+  candidate: Parameters<typeof findOverlap>[1],
+) {
+  const conflict = findOverlap(entries, candidate);
+  if (conflict) throw new TimeEntryOverlapError(conflict);
+}
+
+/**
+ * Logged milliseconds per calendar day (YYYY-MM-DD) for one employee.
+ * Entries that run past midnight are split across the days they cover.
+ */
+export function getDailyTotals(
+  entries: TimeEntry[],
+  employeeId: TimeEntry["employeeId"],
+  now = Date.now(),
+): Record<string, number> {
+  const totals: Record<string, number> = {};
+
+  for (const entry of entries) {
+    if (!sameEmployee(entry.employeeId, employeeId)) continue;
+
+    const { start, end } = getRange(entry, now);
+    let cursor = start;
+    while (cursor < end) {
+      const dayEnd = dayjs(cursor).endOf("day").valueOf() + 1;
+      const sliceEnd = Math.min(dayEnd, end);
+      const day = dayjs(cursor).format("YYYY-MM-DD");
+      totals[day] = (totals[day] ?? 0) + (sliceEnd - cursor);
+      cursor = sliceEnd;
+    }
+  }
+  return totals;
+}
+
+// Total logged per employee, largest first
+export function getTotalsByEmployee(entries: TimeEntry[], now = Date.now()) {
+  const totals = new Map<string, { employeeName: string; duration: number }>();
+  for (const entry of entries) {
+    const key = String(entry.employeeId);
+    const current = totals.get(key) ?? {
+      employeeName: entry.employeeName,
+      duration: 0,
+    };
+    current.duration += getEntryDuration(entry, now);
+    totals.set(key, current);
+  }
+  return [...totals.values()].sort((a, b) => b.duration - a.duration);
+}
+
+// 8100000 → "2h 15m"
+export function formatDuration(ms: number, withSeconds = false) {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (withSeconds) {
+    return `${hours}:${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+  }
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
@@ -0,0 +1,229 @@
+/**
+ * Minimal PDF writer for generated documents (invoices, service reports)
+ *
+ * Supports text in the built-in Helvetica fonts, lines and filled
+ * rectangles on A4 pages, which is all our documents need, without
+ * pulling in a PDF library. Coordinates are in points from the top-left
+ * corner; they are flipped to PDF's bottom-left origin when written.
+ */
+
+export type PdfFont = "regular" | "bold";
+
+export interface TextOptions {
+  size?: number;
+  font?: PdfFont;
+  // x is the left edge, centre or right edge of the text
+  align?: "left" | "center" | "right";
+  // Grey level from 0 (black) to 1 (white)
+  gray?: number;
+}
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+// Helvetica advance widths (1/1000 em) for WinAnsi codes 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+  584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+  556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584,
+];
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: "F1", bold: "F2" };
+
+// Characters outside Latin-1 cannot be shown by the built-in fonts
+const toLatin1 = (text: string) =>
+  text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/[^\x20-\xff]/g, "?");
+
+// PDF string literal; non-ASCII bytes are written as octal escapes
+const escapeText = (text: string) =>
+  toLatin1(text).replace(/[\\()]|[^\x20-\x7e]/g, (char) =>
+    /[\\()]/.test(char)
+      ? `\\${char}`
+      : `\\${char.charCodeAt(0).toString(8).padStart(3, "0")}`,
+  );
+
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  private get content() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  textWidth(text: string, size = 10, font: PdfFont = "regular") {
+    const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let units = 0;
+    for (const char of toLatin1(text)) {
+      units += widths[char.charCodeAt(0) - 32] ?? 556;
+    }
+    return (units * size) / 1000;
+  }
+
+  text(text: string, x: number, y: number, options: TextOptions = {}) {
+    const { size = 10, font = "regular", align = "left", gray = 0 } = options;
+    const width = this.textWidth(text, size, font);
+    const left =
+      align === "right" ? x - width : align === "center" ? x - width / 2 : x;
+
+    this.content.push(
+      `BT /${FONT_RESOURCES[font]} ${num(size)} Tf ${num(gray)} g ${num(left)} ${num(
+        PAGE_HEIGHT - y,
+      )} Td (${escapeText(text)}) Tj ET`,
+    );
+  }
+
+  /**
+   * Breaks text into lines that fit `maxWidth`, splitting on spaces
+   * (and inside words longer than a whole line)
+   */
+  wrapText(
+    text: string,
+    maxWidth: number,
+    size = 10,
+    font: PdfFont = "regular",
+  ) {
+    const lines: string[] = [];
+    for (const paragraph of text.split("\n")) {
+      let line = "";
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (this.textWidth(candidate, size, font) <= maxWidth) {
+          line = candidate;
+          continue;
+        }
+        if (line) lines.push(line);
+        line = word;
+        while (this.textWidth(line, size, font) > maxWidth && line.length > 1) {
+          let cut = line.length - 1;
+          while (
+            cut > 1 &&
+            this.textWidth(line.slice(0, cut), size, font) > maxWidth
+          ) {
+            cut--;
+          }
+          lines.push(line.slice(0, cut));
+          line = line.slice(cut);
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  line(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    gray = 0.8,
+    width = 0.75,
+  ) {
+    this.content.push(
+      `${num(gray)} G ${num(width)} w ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(
+        x2,
+      )} ${num(PAGE_HEIGHT - y2)} l S`,
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, gray = 0.95) {
+    this.content.push(
+      `${num(gray)} g ${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(
+        height,
+      )} re f`,
+    );
+  }
+
+  /**
+   * Serialises the document. The output is plain ASCII, so string
+   * lengths double as the byte offsets the cross-reference table needs.
+   */
+  toString() {
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, index) => 5 + index * 2);
+
+    objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+    objects[2] = `<< /Type /Pages /Kids [${pageIds
+      .map((id) => `${id} 0 R`)
+      .join(" ")}] /Count ${pageIds.length} >>`;
+    objects[3] =
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+    objects[4] =
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+    this.pages.forEach((operations, index) => {
+      const stream = operations.join("\n");
+      objects[pageIds[index]] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(
+          PAGE_HEIGHT,
+        )}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${
+          pageIds[index] + 1
+        } 0 R >>`;
+      objects[pageIds[index] + 1] =
+        `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+    });
+
+    let output = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return output;
+  }
+
+  toBlob() {
+    return new Blob([this.toString()], { type: "application/pdf" });
+  }
+}
+
+// Saves a generated document through a temporary object URL
+export function downloadPdf(doc: PdfDocument, fileName: string) {
+  const url = URL.createObjectURL(doc.toBlob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
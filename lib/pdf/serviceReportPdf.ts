@@ -0,0 +1,256 @@
+import type { Invoice } from "@/lib/models/invoice";
+import dayjs from "dayjs";
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument } from "./pdfDocument";
+
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BOTTOM = PAGE_HEIGHT - 70;
+const RIGHT = PAGE_WIDTH - MARGIN;
+
+// Right edges of the numeric columns in the line-item table
+const COLUMNS = { type: 330, quantity: 400, unitPrice: 470, total: RIGHT };
+
+const money = (amount: number) => `$${amount.toFixed(2)}`;
+
+const LINE_TYPE_LABELS = {
+  service: "Service",
+  part: "Part",
+  labour: "Labour",
+};
+
+/**
+ * Lays out the service report and invoice for a completed booking
+ */
+export function renderServiceReport(invoice: Invoice): PdfDocument {
+  const doc = new PdfDocument();
+  const { booking } = invoice;
+  let y = MARGIN;
+
+  const newPage = () => {
+    doc.addPage();
+    y = MARGIN;
+  };
+
+  // Starts a new page when the next `height` points would not fit
+  const ensureSpace = (height: number) => {
+    if (y + height > BOTTOM) newPage();
+  };
+
+  const heading = (title: string) => {
+    ensureSpace(40);
+    y += 10;
+    doc.text(title.toUpperCase(), MARGIN, y, {
+      size: 9,
+      font: "bold",
+      gray: 0.4,
+    });
+    doc.line(MARGIN, y + 5, RIGHT, y + 5);
+    y += 20;
+  };
+
+  const detailColumn = (x: number, top: number, rows: [string, string][]) => {
+    let rowY = top;
+    for (const [label, value] of rows) {
+      doc.text(label, x, rowY, { size: 8, gray: 0.45 });
+      doc.text(value, x, rowY + 11, { size: 10 });
+      rowY += 28;
+    }
+    return rowY;
+  };
+
+  // Header
+  doc.text("NexusAuto", MARGIN, y + 14, { size: 22, font: "bold" });
+  doc.text("Service Report & Invoice", MARGIN, y + 32, { size: 11, gray: 0.4 });
+  doc.text(invoice.number, RIGHT, y + 12, {
+    size: 12,
+    font: "bold",
+    align: "right",
+  });
+  doc.text(
+    `Issued ${dayjs(invoice.issuedAt).format("MMM D, YYYY")}`,
+    RIGHT,
+    y + 27,
+    {
+      size: 9,
+      gray: 0.4,
+      align: "right",
+    },
+  );
+  doc.text(`Booking ${booking.reference ?? booking.bookingId}`, RIGHT, y + 39, {
+    size: 9,
+    gray: 0.4,
+    align: "right",
+  });
+  y += 60;
+
+  // Parties and vehicle
+  heading("Details");
+  const half = MARGIN + CONTENT_WIDTH / 2;
+  const vehicle = booking.vehicle;
+  const leftEnd = detailColumn(MARGIN, y, [
+    [
+      "Service Center",
+      booking.center
+        ? `${booking.center.name}, ${booking.center.location}`
+        : "Not specified",
+    ],
+    ["Customer", booking.customerName],
+    ["Contact", booking.contactPhone || "Not provided"],
+  ]);
+  const rightEnd = detailColumn(half, y, [
+    [
+      "Vehicle",
+      vehicle
+        ? `${vehicle.year} ${vehicle.brand} ${vehicle.model}`
+        : "Not specified",
+    ],
+    ["License Plate", vehicle?.licensePlate ?? "-"],
+    ["Technician", invoice.technician || "-"],
+  ]);
+  y = Math.max(leftEnd, rightEnd);
+
+  // Line items
+  heading("Charges");
+  const tableHeader = () => {
+    doc.rect(MARGIN, y - 11, CONTENT_WIDTH, 16);
+    doc.text("Description", MARGIN + 6, y, { size: 8, font: "bold" });
+    doc.text("Type", COLUMNS.type, y, {
+      size: 8,
+      font: "bold",
+      align: "right",
+    });
+    doc.text("Qty", COLUMNS.quantity, y, {
+      size: 8,
+      font: "bold",
+      align: "right",
+    });
+    doc.text("Unit Price", COLUMNS.unitPrice, y, {
+      size: 8,
+      font: "bold",
+      align: "right",
+    });
+    doc.text("Amount", COLUMNS.total - 6, y, {
+      size: 8,
+      font: "bold",
+      align: "right",
+    });
+    y += 20;
+  };
+  tableHeader();
+
+  if (invoice.lines.length === 0) {
+    doc.text(
+      "No chargeable items were recorded for this booking.",
+      MARGIN + 6,
+      y,
+      {
+        size: 9,
+        gray: 0.45,
+      },
+    );
+    y += 18;
+  }
+
+  for (const line of invoice.lines) {
+    const description = doc.wrapText(line.description, 230, 9);
+    // Repeat the column headings on each page the table spans
+    if (y + description.length * 12 > BOTTOM) {
+      newPage();
+      tableHeader();
+    }
+    description.forEach((text, index) =>
+      doc.text(text, MARGIN + 6, y + index * 12, { size: 9 }),
+    );
+    doc.text(LINE_TYPE_LABELS[line.type], COLUMNS.type, y, {
+      size: 9,
+      align: "right",
+    });
+    doc.text(String(line.quantity), COLUMNS.quantity, y, {
+      size: 9,
+      align: "right",
+    });
+    doc.text(money(line.unitPrice), COLUMNS.unitPrice, y, {
+      size: 9,
+      align: "right",
+    });
+    doc.text(money(line.total), COLUMNS.total - 6, y, {
+      size: 9,
+      align: "right",
+    });
+    y += description.length * 12 + 6;
+    doc.line(MARGIN, y - 9, RIGHT, y - 9, 0.9, 0.5);
+  }
+
+  // Totals
+  ensureSpace(100);
+  y += 6;
+  const totals: [string, string][] = [
+    ["Parts", money(invoice.partsTotal)],
+    ["Labour", money(invoice.labourTotal)],
+    ["Subtotal", money(invoice.subtotal)],
+    [`Tax (${Math.round(invoice.taxRate * 1000) / 10}%)`, money(invoice.tax)],
+  ];
+  for (const [label, value] of totals) {
+    doc.text(label, COLUMNS.unitPrice, y, {
+      size: 9,
+      gray: 0.4,
+      align: "right",
+    });
+    doc.text(value, COLUMNS.total - 6, y, { size: 9, align: "right" });
+    y += 14;
+  }
+  doc.line(COLUMNS.quantity, y - 6, RIGHT, y - 6, 0.3, 0.75);
+  y += 8;
+  doc.text("Total", COLUMNS.unitPrice, y, {
+    size: 11,
+    font: "bold",
+    align: "right",
+  });
+  doc.text(money(invoice.total), COLUMNS.total - 6, y, {
+    size: 11,
+    font: "bold",
+    align: "right",
+  });
+  y += 16;
+
+  // Work log
+  heading("Work Performed");
+  if (invoice.workPerformed.length === 0) {
+    const lines = doc.wrapText(
+      booking.notes || "No work notes were recorded.",
+      CONTENT_WIDTH,
+      9,
+    );
+    ensureSpace(lines.length * 12);
+    lines.forEach((text, index) =>
+      doc.text(text, MARGIN, y + index * 12, { size: 9, gray: 0.45 }),
+    );
+    y += lines.length * 12 + 2;
+  }
+  for (const entry of invoice.workPerformed) {
+    const lines = doc.wrapText(entry.text, CONTENT_WIDTH - 90, 9);
+    ensureSpace(lines.length * 12 + 6);
+    doc.text(dayjs(entry.date).format("MMM D, HH:mm"), MARGIN, y, {
+      size: 8,
+      gray: 0.45,
+    });
+    lines.forEach((text, index) =>
+      doc.text(text, MARGIN + 90, y + index * 12, { size: 9 }),
+    );
+    y += lines.length * 12 + 6;
+  }
+
+  // Footer
+  ensureSpace(40);
+  y += 20;
+  doc.text("Thank you for choosing NexusAuto.", PAGE_WIDTH / 2, y, {
+    size: 9,
+    gray: 0.45,
+    align: "center",
+  });
+
+  return doc;
+}
+
+export const getServiceReportFileName = (invoice: Invoice) =>
+  `${invoice.number.toLowerCase()}.pdf`;
@@ -0,0 +1,49 @@
+import type { BookingResponse } from "@/app/types";
+import type { BookingRequestPayload } from "@/interfaces/bookingUpdate";
+import {
+  Booking,
+  fromBookingRequestPayload,
+  fromBookingServicePayload,
+} from "@/lib/models/booking";
+import type { Vehicle } from "@/lib/store/vehicleStore";
+
+export const BOOKING_EVENT_TYPES = [
+  "booking.created",
+  "booking.status_changed",
+] as const;
+
+export type BookingEventType = (typeof BOOKING_EVENT_TYPES)[number];
+
+// `data` of a booking event as sent over the wire; the payload shape follows its source
+export type BookingEventData =
+  | { source: "booking-service"; booking: BookingResponse }
+  | { source: "booking-requests"; booking: BookingRequestPayload };
+
+export interface BookingEvent {
+  type: BookingEventType;
+  booking: Booking;
+}
+
+/**
+ * Turns a raw SSE message into a canonical booking event.
+ * Returns null (and logs) for payloads it can't read.
+ */
+export function parseBookingEvent(
+  type: string,
+  rawData: string,
+  vehicles: Vehicle[] = [],
+): BookingEvent | null {
+  if (!(BOOKING_EVENT_TYPES as readonly string[]).includes(type)) return null;
+
+  try {
+    const data = JSON.parse(rawData) as BookingEventData;
+    const booking =
+      data.source === "booking-service"
+        ? fromBookingServicePayload(data.booking, vehicles)
+        : fromBookingRequestPayload(data.booking);
+    return { type: type as BookingEventType, booking };
+  } catch (error) {
+    console.error(`Ignoring malformed "${type}" event:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,74 @@
+import { API_BASE_URLS } from "@/lib/api/clientFactory";
+import { BOOKING_EVENT_TYPES } from "./events";
+
+export type RealtimeStatus = "connecting" | "open" | "closed";
+
+interface RealtimeOptions {
+  // Read on every (re)connect and sent as a query parameter, since
+  // EventSource can't set headers
+  getToken?: () => string | null | undefined;
+  onMessage: (type: string, data: string) => void;
+  onStatusChange?: (status: RealtimeStatus) => void;
+}
+
+const MAX_RETRY_DELAY = 30000;
+
+/**
+ * Subscribes to the realtime service's booking events over SSE.
+ * EventSource retries dropped connections on its own; when the server
+ * refuses the stream we reconnect with exponential backoff.
+ * Returns a function that closes the connection for good.
+ */
+export function connectRealtime({
+  getToken,
+  onMessage,
+  onStatusChange,
+}: RealtimeOptions): () => void {
+  if (typeof EventSource === "undefined") return () => {};
+
+  let source: EventSource | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let attempts = 0;
+  let stopped = false;
+
+  const open = () => {
+    onStatusChange?.("connecting");
+    const url = new URL("/events", API_BASE_URLS.realtime);
+    const token = getToken?.();
+    if (token) url.searchParams.set("token", token);
+    source = new EventSource(url.toString());
+
+    source.onopen = () => {
+      attempts = 0;
+      onStatusChange?.("open");
+    };
+
+    source.onerror = () => {
+      if (source?.readyState !== EventSource.CLOSED) {
+        onStatusChange?.("connecting");
+        return;
+      }
+      onStatusChange?.("closed");
+      if (stopped) return;
+
+      const delay = Math.min(1000 * 2 ** attempts, MAX_RETRY_DELAY);
+      attempts += 1;
+      retryTimer = setTimeout(open, delay);
+    };
+
+    for (const type of BOOKING_EVENT_TYPES) {
+      source.addEventListener(type, (event) =>
+        onMessage(type, (event as MessageEvent<string>).data),
+      );
+    }
+  };
+
+  open();
+
+  return () => {
+    stopped = true;
+    clearTimeout(retryTimer);
+    source?.close();
+    onStatusChange?.("closed");
+  };
+}
@@ -1,8 +1,10 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import { syncAuthCookie } from "../utils/authCookie";
 
 interface AuthState {
   token: string | null;
+  refreshToken: string | null;
   user: UserResponse | null;
   isLoading: boolean;
   isAuthenticated: boolean;
@@ -11,8 +13,9 @@ interface AuthState {
 interface AuthStore extends AuthState {
   // Actions
   setToken: (token: string) => void;
+  setTokens: (token: string, refreshToken?: string) => void;
   setUser: (user: UserResponse) => void;
-  login: (token: string, user: UserResponse) => void;
+  login: (token: string, user: UserResponse, refreshToken?: string) => void;
   logout: () => void;
   setLoading: (loading: boolean) => void;
   updateUser: (userData: Partial<UserResponse>) => void;
@@ -28,6 +31,8 @@ interface AuthStore extends AuthState {
  * Zustand store for authentication state management
  *
  * - Persists authentication state to localStorage
+ * - Keeps the refresh token used to renew expired access tokens
+ * - Mirrors the access token into a cookie for route middleware
  * - Provides helper methods for role checking
  * - Manages loading states for UI feedback
  * - Handles user profile updates
@@ -37,6 +42,7 @@ export const useAuthStore = create<AuthStore>()(
     (set, get) => ({
       // Initial state
       token: null,
+      refreshToken: null,
       user: null,
       isLoading: false,
       isAuthenticated: false,
@@ -44,11 +50,20 @@ export const useAuthStore = create<AuthStore>()(
       // Actions
       setToken: (token: string) => set({ token, isAuthenticated: !!token }),
 
+      // Keeps the current refresh token if the server did not rotate it
+      setTokens: (token: string, refreshToken?: string) =>
+        set((state) => ({
+          token,
+          refreshToken: refreshToken ?? state.refreshToken,
+          isAuthenticated: !!token,
+        })),
+
       setUser: (user: UserResponse) => set({ user }),
 
-      login: (token: string, user: UserResponse) =>
+      login: (token: string, user: UserResponse, refreshToken?: string) =>
         set({
           token,
+          refreshToken: refreshToken ?? null,
           user,
           isAuthenticated: true,
           isLoading: false,
@@ -57,6 +72,7 @@ export const useAuthStore = create<AuthStore>()(
       logout: () =>
         set({
           token: null,
+          refreshToken: null,
           user: null,
           isAuthenticated: false,
           isLoading: false,
@@ -74,7 +90,7 @@ export const useAuthStore = create<AuthStore>()(
         const { user } = get();
         return user?.role === role;
       },
-      
+
       isAdmin: () => get().hasRole("ROLE_ADMIN"),
       isEmployee: () => get().hasRole("ROLE_EMPLOYEE"),
       isCustomer: () => get().hasRole("ROLE_CUSTOMER"),
@@ -84,6 +100,7 @@ export const useAuthStore = create<AuthStore>()(
       // Only persist essential data
       partialize: (state) => ({
         token: state.token,
+        refreshToken: state.refreshToken,
         user: state.user,
         isAuthenticated: state.isAuthenticated,
       }),
@@ -91,6 +108,15 @@ export const useAuthStore = create<AuthStore>()(
   ),
 );
 
+// Keep the middleware cookie in step with the token
+useAuthStore.subscribe((state, prevState) => {
+  if (state.token !== prevState.token) {
+    syncAuthCookie(state.token);
+  }
+});
+// localStorage rehydrates during create(), before the subscription exists
+syncAuthCookie(useAuthStore.getState().token);
+
 // Hook to get authentication status and user info
 export const useAuth = () => {
   const { token, user, isAuthenticated, isLoading } = useAuthStore();
@@ -99,9 +125,24 @@ export const useAuth = () => {
 
 // Hook to get authentication actions
 export const useAuthActions = () => {
-  const { setToken, setUser, login, logout, setLoading, updateUser } =
-    useAuthStore();
-  return { setToken, setUser, login, logout, setLoading, updateUser };
+  const {
+    setToken,
+    setTokens,
+    setUser,
+    login,
+    logout,
+    setLoading,
+    updateUser,
+  } = useAuthStore();
+  return {
+    setToken,
+    setTokens,
+    setUser,
+    login,
+    logout,
+    setLoading,
+    updateUser,
+  };
 };
 
 // Hook to get role checking utilities
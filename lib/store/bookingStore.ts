@@ -1,16 +1,10 @@
 import { create} from 'zustand';
-import { Vehicle } from './vehicleStore';
+import { Booking, BookingSource, BookingStatus } from '../models/booking';
+import { assertTransition, BookingStatusChange } from '../models/bookingStatus';
+import { bookingRequestsApi } from '../api/bookingRequestsClient';
 
-export interface Booking {
-    _id: string;
-    bookingId: string;
-    customerName: string;
-    currentStatus: "Pending" | "Accepted" | "Rejected" | "Completed" | "In-Progress"| "Hold on";
-    date: string;
-    serviceName: string;
-    vehicle: Vehicle;
-    notes?: string;
-    }
+// Canonical model lives in lib/models/booking; re-exported for existing imports
+export type { Booking, BookingStatus };
 
 interface BookingStore {    
     bookings: Booking[];
@@ -20,15 +14,23 @@ interface BookingStore {
 // Store-only operations (work on state only)
     setBookings: (bookings: Booking[]) => void;
     addBooking: (booking: Booking) => void;
-    updateBookingStatus: (bookingId: string, newStatus: Booking["currentStatus"]) => void;
+    upsertBooking: (booking: Booking) => void;
+    updateBookingStatus: (
+        bookingId: string,
+        newStatus: BookingStatus,
+        change?: Pick<BookingStatusChange, "changedBy" | "reason">
+    ) => void;
     removeBooking: (bookingId: string) => void;
 
+// Async operations (call the API, then update state)
+    getBookingById: (bookingId: string, source?: BookingSource | null) => Promise<Booking | null>;
+
     // helpers
     setLoading: (loading: boolean) => void;
     setError: (error: string | null) => void;
 
 }
-export const useBookingStore = create<BookingStore>((set) => ({
+export const useBookingStore = create<BookingStore>((set, get) => ({
     bookings: [],
     isLoading: false,
     error: null,
@@ -38,10 +40,32 @@ export const useBookingStore = create<BookingStore>((set) => ({
     addBooking: (booking) => {
         set((state) => ({ bookings: [booking, ...state.bookings] }));
     },
-    updateBookingStatus: (bookingId, newStatus) => {
+    // Replaces the booking with the same bookingId, or adds it to the top
+    upsertBooking: (booking) => {
+        set((state) => ({
+            bookings: state.bookings.some((b) => b.bookingId === booking.bookingId)
+                ? state.bookings.map((b) => (b.bookingId === booking.bookingId ? booking : b))
+                : [booking, ...state.bookings],
+        }));
+    },
+    // Throws InvalidStatusTransitionError for moves outside BOOKING_TRANSITIONS
+    updateBookingStatus: (bookingId, newStatus, change) => {
+        const booking = get().bookings.find((b) => b.bookingId === bookingId);
+        if (!booking) return;
+        assertTransition(booking.currentStatus, newStatus);
+
+        const entry: BookingStatusChange = {
+            from: booking.currentStatus,
+            to: newStatus,
+            changedBy: change?.changedBy ?? { name: "System" },
+            changedAt: new Date().toISOString(),
+            reason: change?.reason,
+        };
         set((state) => ({
             bookings: state.bookings.map((b) => 
-                b.bookingId === bookingId ? { ...b, currentStatus: newStatus } : b
+                b.bookingId === bookingId
+                    ? { ...b, currentStatus: newStatus, statusHistory: [...b.statusHistory, entry] }
+                    : b
             ),
         }));
     },
@@ -50,18 +74,31 @@ export const useBookingStore = create<BookingStore>((set) => ({
             bookings: state.bookings.filter((b) => b.bookingId !== bookingId),
         }));
     },
+    // Served from the store when loaded; fetched and cached otherwise (deep links, refreshes).
+    // Fetching needs the source, since ids are only unique within one backend.
+    getBookingById: async (bookingId, source) => {
+        const cached = get().bookings.find((b) => b.bookingId === bookingId);
+        if (cached) return cached;
+        if (!source) return null;
+
+        const booking = await bookingRequestsApi.getBookingById(bookingId, source);
+        if (booking) get().upsertBooking(booking);
+        return booking;
+    },
     setLoading: (loading) => set({ isLoading: loading }),
     setError: (error) => set({ error }),
 }));
 
 
 export const useBookingActions = () => {
-    const { setBookings, addBooking, updateBookingStatus, removeBooking, setLoading, setError } = useBookingStore();
+    const { setBookings, addBooking, upsertBooking, updateBookingStatus, removeBooking, getBookingById, setLoading, setError } = useBookingStore();
     return {    
         setBookings,   
         addBooking,
+        upsertBooking,
         updateBookingStatus,
         removeBooking,
+        getBookingById,
         setLoading,
         setError,
     };
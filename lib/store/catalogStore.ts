@@ -0,0 +1,112 @@
+import { create } from "zustand";
+import type { Center, Service } from "@/app/types";
+
+export type { Center, Service };
+
+interface CatalogStore {
+  centers: Center[];
+  services: Service[];
+  // Set once both lists have been fetched
+  isLoaded: boolean;
+  isLoading: boolean;
+  error: string | null;
+
+  // Store-only operations (work on state only)
+  setCatalog: (centers: Center[], services: Service[]) => void;
+  setCenters: (centers: Center[]) => void;
+  // Replaces the center with the same id, or appends it
+  upsertCenter: (center: Center, replaceId?: number) => void;
+  removeCenter: (centerId: number) => void;
+  setServices: (services: Service[]) => void;
+  upsertService: (service: Service, replaceId?: number) => void;
+  removeService: (serviceId: number) => void;
+
+  // helpers
+  setLoading: (loading: boolean) => void;
+  setError: (error: string | null) => void;
+}
+
+// `replaceId` swaps an optimistic placeholder for the saved record
+const upsertById = <T extends { id: number }>(
+  items: T[],
+  item: T,
+  replaceId = item.id,
+) =>
+  items.some((i) => i.id === replaceId)
+    ? items.map((i) => (i.id === replaceId ? item : i))
+    : [...items, item];
+
+export const useCatalogStore = create<CatalogStore>((set) => ({
+  centers: [],
+  services: [],
+  isLoaded: false,
+  isLoading: false,
+  error: null,
+
+  setCatalog: (centers, services) => set({ centers, services, isLoaded: true }),
+
+  setCenters: (centers) => set({ centers }),
+
+  upsertCenter: (center, replaceId) => {
+    set((state) => ({ centers: upsertById(state.centers, center, replaceId) }));
+  },
+
+  // Services keep pointing at a deleted center until reloaded; drop it here too
+  removeCenter: (centerId) => {
+    set((state) => ({
+      centers: state.centers.filter((c) => c.id !== centerId),
+      services: state.services.map((s) =>
+        s.center_ids?.includes(centerId)
+          ? { ...s, center_ids: s.center_ids.filter((id) => id !== centerId) }
+          : s,
+      ),
+    }));
+  },
+
+  setServices: (services) => set({ services }),
+
+  upsertService: (service, replaceId) => {
+    set((state) => ({
+      services: upsertById(state.services, service, replaceId),
+    }));
+  },
+
+  removeService: (serviceId) => {
+    set((state) => ({
+      services: state.services.filter((s) => s.id !== serviceId),
+    }));
+  },
+
+  setLoading: (loading) => set({ isLoading: loading }),
+  setError: (error) => set({ error }),
+}));
+
+export const useCatalogActions = () => {
+  const {
+    setCatalog,
+    setCenters,
+    upsertCenter,
+    removeCenter,
+    setServices,
+    upsertService,
+    removeService,
+    setLoading,
+    setError,
+  } = useCatalogStore();
+  return {
+    setCatalog,
+    setCenters,
+    upsertCenter,
+    removeCenter,
+    setServices,
+    upsertService,
+    removeService,
+    setLoading,
+    setError,
+  };
+};
+
+export const useCatalog = () => {
+  const { centers, services, isLoaded, isLoading, error } = useCatalogStore();
+  return { centers, services, isLoaded, isLoading, error };
+};
@@ -0,0 +1,110 @@
+import { create } from 'zustand';
+import { Part, PartReservation, StockLevel } from '../models/inventory';
+
+export type { Part, PartReservation, StockLevel };
+
+interface InventoryStore {
+    parts: Part[];
+    stockLevels: StockLevel[];
+    reservations: PartReservation[];
+    isLoading: boolean;
+    error: string | null;
+
+    // Store-only operations (work on state only)
+    setParts: (parts: Part[]) => void;
+    upsertPart: (part: Part) => void;
+    setStockLevels: (stockLevels: StockLevel[]) => void;
+    // Replaces the level for the same part and center, or adds it
+    upsertStockLevel: (stock: StockLevel) => void;
+    setReservations: (reservations: PartReservation[]) => void;
+    upsertReservation: (reservation: PartReservation) => void;
+
+    // helpers
+    setLoading: (loading: boolean) => void;
+    setError: (error: string | null) => void;
+}
+
+export const useInventoryStore = create<InventoryStore>((set) => ({
+    parts: [],
+    stockLevels: [],
+    reservations: [],
+    isLoading: false,
+    error: null,
+
+    setParts: (parts) => {
+        set({ parts });
+    },
+
+    upsertPart: (part) => {
+        set((state) => ({
+            parts: state.parts.some((p) => p._id === part._id)
+                ? state.parts.map((p) => (p._id === part._id ? part : p))
+                : [...state.parts, part],
+        }));
+    },
+
+    setStockLevels: (stockLevels) => {
+        set({ stockLevels });
+    },
+
+    upsertStockLevel: (stock) => {
+        set((state) => {
+            const matches = (l: StockLevel) =>
+                l.partId === stock.partId && l.centerId === stock.centerId;
+            return {
+                stockLevels: state.stockLevels.some(matches)
+                    ? state.stockLevels.map((l) => (matches(l) ? stock : l))
+                    : [...state.stockLevels, stock],
+            };
+        });
+    },
+
+    setReservations: (reservations) => {
+        set({ reservations });
+    },
+
+    upsertReservation: (reservation) => {
+        set((state) => ({
+            reservations: state.reservations.some((r) => r._id === reservation._id)
+                ? state.reservations.map((r) => (r._id === reservation._id ? reservation : r))
+                : [reservation, ...state.reservations],
+        }));
+    },
+
+    setLoading: (loading) => set({ isLoading: loading }),
+    setError: (error) => set({ error }),
+}));
+
+export const useInventoryActions = () => {
+    const {
+        setParts,
+        upsertPart,
+        setStockLevels,
+        upsertStockLevel,
+        setReservations,
+        upsertReservation,
+        setLoading,
+        setError,
+    } = useInventoryStore();
+    return {
+        setParts,
+        upsertPart,
+        setStockLevels,
+        upsertStockLevel,
+        setReservations,
+        upsertReservation,
+        setLoading,
+        setError,
+    };
+};
+
+export const useInventory = () => {
+    const { parts, stockLevels, reservations, isLoading, error } = useInventoryStore();
+    return {
+        parts,
+        stockLevels,
+        reservations,
+        isLoading,
+        error,
+    };
+};
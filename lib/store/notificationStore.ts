@@ -0,0 +1,90 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { generateRequestId } from "@/lib/api/clientFactory";
+import { useAuthStore } from "./authStore";
+
+export interface AppNotification {
+  id: string;
+  title: string;
+  message: string;
+  // Page the notification opens when clicked
+  href?: string;
+  createdAt: string;
+  read: boolean;
+}
+
+// Oldest entries are dropped beyond this
+const MAX_NOTIFICATIONS = 50;
+
+interface NotificationStore {
+  notifications: AppNotification[];
+
+  // Store-only operations (work on state only)
+  addNotification: (
+    notification: Omit<AppNotification, "id" | "createdAt" | "read">,
+  ) => void;
+  markAsRead: (id: string) => void;
+  markAllAsRead: () => void;
+  clearNotifications: () => void;
+}
+
+/**
+ * Notification center entries (realtime booking updates and the like),
+ * persisted so they survive a reload
+ */
+export const useNotificationStore = create<NotificationStore>()(
+  persist(
+    (set) => ({
+      notifications: [],
+
+      addNotification: (notification) =>
+        set((state) => ({
+          notifications: [
+            {
+              ...notification,
+              id: generateRequestId(),
+              createdAt: new Date().toISOString(),
+              read: false,
+            },
+            ...state.notifications,
+          ].slice(0, MAX_NOTIFICATIONS),
+        })),
+
+      markAsRead: (id) =>
+        set((state) => ({
+          notifications: state.notifications.map((n) =>
+            n.id === id ? { ...n, read: true } : n,
+          ),
+        })),
+
+      markAllAsRead: () =>
+        set((state) => ({
+          notifications: state.notifications.map((n) => ({ ...n, read: true })),
+        })),
+
+      clearNotifications: () => set({ notifications: [] }),
+    }),
+    { name: "notification-storage" },
+  ),
+);
+
+// Notifications belong to the signed-in user; drop them when the user changes
+useAuthStore.subscribe((state, prevState) => {
+  if (prevState.user && state.user?.id !== prevState.user.id) {
+    useNotificationStore.getState().clearNotifications();
+  }
+});
+
+export const useNotifications = () => {
+  const { notifications } = useNotificationStore();
+  return {
+    notifications,
+    unreadCount: notifications.filter((n) => !n.read).length,
+  };
+};
+
+export const useNotificationActions = () => {
+  const { addNotification, markAsRead, markAllAsRead, clearNotifications } =
+    useNotificationStore();
+  return { addNotification, markAsRead, markAllAsRead, clearNotifications };
+};
@@ -1,17 +1,49 @@
 import {create} from "zustand";
 import { Vehicle } from "./vehicleStore";
+import type { Quote } from "../models/quote";
+import type { Assignee } from "../models/booking";
 
 
+export interface ProjectNote {
+    _id: string;
+    text: string;
+    author: {
+        id?: number | string;
+        name: string;
+    };
+    createdAt: string;
+}
+
+export interface ProgressUpdate {
+    _id: string;
+    message: string;
+    photos: {
+        url: string;
+        name?: string;
+    }[];
+    author: ProjectNote["author"];
+    createdAt: string;
+}
+
 export interface Project {
     _id: string;
     vehicle: Vehicle[];
+    // Booking the project was created from
     appointmentId: string;
+    customerId?: string;
     serviceType: string;
-    status:"In Progress" | "Completed" | "On Hold" | "Pending"; // added Pending for not yet accepted
+    status:"In Progress" | "Completed" | "On Hold" | "Pending" | "Cancelled"; // added Pending for not yet accepted
     projectType: "Service" | "Modification";
     startDate: string;
     endDate?: string | null;
     notes?: string;
+    // Work log added while the project runs, oldest first
+    projectNotes?: ProjectNote[];
+    // Customer-visible progress, oldest first
+    progressUpdates?: ProgressUpdate[];
+    assignedTo?: Assignee | null;
+    // Modifications only; must be approved before work starts
+    quote?: Quote;
     }
 
 interface  ProjectsStore {
@@ -23,6 +55,7 @@ interface  ProjectsStore {
 
     setProjects: (projects: Project[]) => void;
     addProject: (project: Project) => void;
+    upsertProject: (project: Project) => void;
     updateProjectStatus: (projectId: string, newStatus: Project["status"]) => void;
     removeProject: (projectId: string) => void;
 
@@ -43,6 +76,15 @@ export const useProjectStore = create<ProjectsStore>((set) => ({
     set((state) => ({ projects: [project, ...state.projects] }));
   },
 
+  // Replaces the project with the same _id, or adds it to the top
+  upsertProject: (project) => {
+    set((state) => ({
+      projects: state.projects.some((p) => p._id === project._id)
+        ? state.projects.map((p) => (p._id === project._id ? project : p))
+        : [project, ...state.projects],
+    }));
+  },
+
   updateProjectStatus: (projectId, newStatus) => {
     set((state) => ({
       projects: state.projects.map((p) =>
@@ -67,7 +109,7 @@ export const useProjects = () => {
 };
 
 export const useProjectActions = () => {
-  const { addProject, setProjects, updateProjectStatus, removeProject, setLoading, setError } =
+  const { addProject, setProjects, upsertProject, updateProjectStatus, removeProject, setLoading, setError } =
     useProjectStore();
-  return { addProject, setProjects, updateProjectStatus, removeProject, setLoading, setError };
-};
\ No newline at end of file
+  return { addProject, setProjects, upsertProject, updateProjectStatus, removeProject, setLoading, setError };
+};
@@ -0,0 +1,77 @@
+import { create } from 'zustand';
+import { TimeEntry } from '../models/timeLog';
+
+export type { TimeEntry };
+
+interface TimeLogStore {
+    entries: TimeEntry[];
+    isLoading: boolean;
+    error: string | null;
+
+    // Store-only operations (work on state only)
+    setEntries: (entries: TimeEntry[]) => void;
+    // Adds or replaces each entry by _id, keeping the rest
+    mergeEntries: (entries: TimeEntry[]) => void;
+    upsertEntry: (entry: TimeEntry) => void;
+    removeEntry: (entryId: string) => void;
+
+    // helpers
+    setLoading: (loading: boolean) => void;
+    setError: (error: string | null) => void;
+}
+
+export const useTimeLogStore = create<TimeLogStore>((set) => ({
+    entries: [],
+    isLoading: false,
+    error: null,
+
+    setEntries: (entries) => set({ entries }),
+
+    mergeEntries: (entries) => {
+        set((state) => {
+            const incoming = new Map(entries.map((e) => [e._id, e]));
+            return {
+                entries: [
+                    ...state.entries.filter((e) => !incoming.has(e._id)),
+                    ...entries,
+                ],
+            };
+        });
+    },
+
+    upsertEntry: (entry) => {
+        set((state) => ({
+            entries: state.entries.some((e) => e._id === entry._id)
+                ? state.entries.map((e) => (e._id === entry._id ? entry : e))
+                : [...state.entries, entry],
+        }));
+    },
+
+    removeEntry: (entryId) => {
+        set((state) => ({ entries: state.entries.filter((e) => e._id !== entryId) }));
+    },
+
+    setLoading: (loading) => set({ isLoading: loading }),
+    setError: (error) => set({ error }),
+}));
+
+export const useTimeLogActions = () => {
+    const { setEntries, mergeEntries, upsertEntry, removeEntry, setLoading, setError } = useTimeLogStore();
+    return {
+        setEntries,
+        mergeEntries,
+        upsertEntry,
+        removeEntry,
+        setLoading,
+        setError,
+    };
+};
+
+export const useTimeEntries = () => {
+    const { entries, isLoading, error } = useTimeLogStore();
+    return {
+        entries,
+        isLoading,
+        error,
+    };
+};
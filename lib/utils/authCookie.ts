@@ -0,0 +1,18 @@
+// Cookie read by middleware.ts to guard routes before they render
+export const AUTH_COOKIE_NAME = "auth-token";
+
+// Outlives the access token on purpose: expired tokens are renewed client-side
+const AUTH_COOKIE_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
+
+/**
+ * Mirrors the access token into a cookie (or clears it when token is null).
+ * No-op outside the browser.
+ */
+export function syncAuthCookie(token: string | null) {
+  if (typeof document === "undefined") return;
+
+  const secure = window.location.protocol === "https:" ? "; Secure" : "";
+  document.cookie = token
+    ? `${AUTH_COOKIE_NAME}=${encodeURIComponent(token)}; Path=/; Max-Age=${AUTH_COOKIE_MAX_AGE}; SameSite=Lax${secure}`
+    : `${AUTH_COOKIE_NAME}=; Path=/; Max-Age=0; SameSite=Lax${secure}`;
+}
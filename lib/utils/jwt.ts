@@ -0,0 +1,40 @@
+export interface JwtPayload {
+  sub?: string;
+  exp?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+/**
+ * Decodes the payload of a JWT without verifying its signature.
+ * Only use the result for UI decisions; the backend remains the authority.
+ */
+export function decodeJwt(token: string): JwtPayload | null {
+  const [, payload] = token.split(".");
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, "=");
+    const json = decodeURIComponent(
+      Array.from(atob(padded))
+        .map((char) => `%${char.charCodeAt(0).toString(16).padStart(2, "0")}`)
+        .join(""),
+    );
+    return JSON.parse(json) as JwtPayload;
+  } catch {
+    return null;
+  }
+}
+
+// Expiry of the token as a millisecond timestamp, or null if it has no exp claim
+export function getTokenExpiry(token: string): number | null {
+  const payload = decodeJwt(token);
+  return typeof payload?.exp === "number" ? payload.exp * 1000 : null;
+}
+
+// Milliseconds until the token expires (negative once expired)
+export function getTimeUntilExpiry(token: string, now = Date.now()) {
+  const expiry = getTokenExpiry(token);
+  return expiry === null ? null : expiry - now;
+}
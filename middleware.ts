@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AUTH_COOKIE_NAME } from "@/lib/utils/authCookie";
+import { decodeJwt } from "@/lib/utils/jwt";
+
+type Role = UserResponse["role"];
+
+/**
+ * Route → role map, checked top to bottom; the first matching prefix wins.
+ * A prefix covers the path itself and everything below it.
+ */
+const ROUTE_ROLES: Array<{ prefix: string; roles: Role[] }> = [
+  { prefix: "/customer", roles: ["ROLE_CUSTOMER"] },
+  { prefix: "/booking", roles: ["ROLE_CUSTOMER"] },
+  { prefix: "/employee", roles: ["ROLE_EMPLOYEE", "ROLE_ADMIN"] },
+  { prefix: "/admin", roles: ["ROLE_ADMIN"] },
+];
+
+// Where a signed-in user lands when they open a page their role can't see
+const ROLE_HOME: Record<Role, string> = {
+  ROLE_ADMIN: "/admin",
+  ROLE_EMPLOYEE: "/employee",
+  ROLE_CUSTOMER: "/customer",
+};
+
+const matchesPrefix = (pathname: string, prefix: string) =>
+  pathname === prefix || pathname.startsWith(`${prefix}/`);
+
+// Accepts `role: "ROLE_X"`, `roles: [...]` or Spring-style `authorities: [...]`
+const getRoleFromToken = (token: string): Role | null => {
+  const payload = decodeJwt(token);
+  if (!payload) return null;
+
+  const candidates = [
+    payload.role,
+    ...(Array.isArray(payload.roles) ? payload.roles : []),
+    ...(Array.isArray(payload.authorities) ? payload.authorities : []),
+  ].map((claim) =>
+    typeof claim === "object" && claim !== null && "authority" in claim
+      ? (claim as { authority: unknown }).authority
+      : claim,
+  );
+
+  const role = candidates.find(
+    (claim): claim is Role => typeof claim === "string" && Object.hasOwn(ROLE_HOME, claim),
+  );
+  return role ?? null;
+};
+
+/**
+ * Role-aware route protection
+ *
+ * - Redirects visitors without an auth cookie to /login?redirect=...
+ * - Sends users whose role may not open the route to their own dashboard
+ * - Tokens without a role claim pass through; ProtectedRoute still checks
+ *   the profile role client-side
+ */
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  const rule = ROUTE_ROLES.find(({ prefix }) =>
+    matchesPrefix(pathname, prefix),
+  );
+  if (!rule) return NextResponse.next();
+
+  const token = request.cookies.get(AUTH_COOKIE_NAME)?.value;
+  if (!token) {
+    const loginUrl = new URL("/login", request.url);
+    loginUrl.searchParams.set("redirect", pathname + search);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  const role = getRoleFromToken(decodeURIComponent(token));
+  if (role && !rule.roles.includes(role)) {
+    return NextResponse.redirect(new URL(ROLE_HOME[role], request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: [
+    "/customer/:path*",
+    "/booking/:path*",
+    "/employee/:path*",
+    "/admin/:path*",
+  ],
+};
@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+/**
+ * Dev-only realtime server (Server-Sent Events)
+ *
+ *   GET  /events   subscribe to booking events
+ *   POST /events   broadcast `{ "type": "...", "data": {...} }` to every subscriber
+ *
+ * Example:
+ *   curl -X POST http://localhost:4010/events -H "Content-Type: application/json" \
+ *     -d '{"type":"booking.status_changed","data":{"source":"booking-service","booking":{...}}}'
+ *
+ * Set MOCK_REALTIME_DEMO=1 to also emit a made-up booking every 30 seconds.
+ * The real service scopes events to the subscriber's token; this one broadcasts.
+ */
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.MOCK_REALTIME_PORT || 4010);
+const HEARTBEAT_MS = 15_000;
+const DEMO_INTERVAL_MS = 30_000;
+
+const clients = new Set();
+let nextEventId = 1;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+function broadcast(type, data) {
+  const frame = `id: ${nextEventId++}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+  for (const res of clients) res.write(frame);
+  console.log(`→ ${type} sent to ${clients.size} client(s)`);
+}
+
+function subscribe(req, res) {
+  res.writeHead(200, {
+    ...corsHeaders,
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  // Tell EventSource how long to wait before reconnecting
+  res.write("retry: 3000\n\n");
+
+  clients.add(res);
+  console.log(`+ client connected (${clients.size})`);
+
+  req.on("close", () => {
+    clients.delete(res);
+    console.log(`- client disconnected (${clients.size})`);
+  });
+}
+
+function publish(req, res) {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    try {
+      const { type, data } = JSON.parse(body);
+      if (typeof type !== "string" || !data) {
+        throw new Error('Expected { "type": string, "data": object }');
+      }
+      broadcast(type, data);
+      res.writeHead(202, {
+        ...corsHeaders,
+        "Content-Type": "application/json",
+      });
+      res.end(JSON.stringify({ delivered: clients.size }));
+    } catch (error) {
+      res.writeHead(400, {
+        ...corsHeaders,
+        "Content-Type": "application/json",
+      });
+      res.end(JSON.stringify({ message: error.message }));
+    }
+  });
+}
+
+function demoBooking() {
+  const id = `demo-${Date.now()}`;
+  return {
+    _id: id,
+    bookingId: id,
+    customerName: "Demo Customer",
+    currentStatus: "Pending",
+    date: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+    serviceName: "Oil Change",
+    vehicle: {
+      _id: "demo-vehicle",
+      brand: "Toyota",
+      model: "Corolla",
+      year: 2020,
+      licensePlate: "DEMO-001",
+      vehicleType: "Car",
+    },
+    statusHistory: [],
+  };
+}
+
+const server = createServer((req, res) => {
+  const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, corsHeaders);
+    return res.end();
+  }
+  if (pathname === "/events" && req.method === "GET")
+    return subscribe(req, res);
+  if (pathname === "/events" && req.method === "POST") return publish(req, res);
+
+  res.writeHead(404, corsHeaders);
+  res.end();
+});
+
+setInterval(() => {
+  for (const res of clients) res.write(": heartbeat\n\n");
+}, HEARTBEAT_MS);
+
+if (process.env.MOCK_REALTIME_DEMO) {
+  setInterval(() => {
+    broadcast("booking.created", {
+      source: "booking-requests",
+      booking: demoBooking(),
+    });
+  }, DEMO_INTERVAL_MS);
+}
+
+server.listen(PORT, () => {
+  console.log(`Mock realtime server on http://localhost:${PORT}/events`);
+});